@@ -1,10 +1,57 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
-import { TrendNode, Edge, HistoryItem } from './types';
-import { fetchNewsTrends } from './services/geminiService';
+import { TrendNode, Edge, HistoryItem, TrendKeyword, Briefing, WatchlistEntry, WatchAlert } from './types';
+import { createTrendProvider } from './services/trendProvider';
+import { AppSettings, loadSettings, saveSettings, cacheTtlMs } from './services/settings';
+import { fetchTrendsCached, pruneTrendCache, clearTrendCache } from './services/trendCache';
+import { loadHistory, saveHistory } from './services/historyStore';
+import { serializeSession, parseSessionFile, sessionFileName } from './services/sessionFile';
+import { downloadFile, toFileSlug } from './services/download';
+import { graphToSvg, svgToPngBlob, graphToGraphML, graphToGexf, graphToMarkdown } from './services/graphExport';
 import Node from './components/Node';
 import HistoryPanel from './components/HistoryPanel';
+import SettingsPanel from './components/SettingsPanel';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import NodeDetailPanel from './components/NodeDetailPanel';
+import DiffPanel from './components/DiffPanel';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import GraphCanvas from './components/GraphCanvas';
+import LayoutSwitcher from './components/LayoutSwitcher';
+import FilterBar from './components/FilterBar';
+import Legend from './components/Legend';
+import AutoExpandStatus from './components/AutoExpandStatus';
+import Minimap from './components/Minimap';
+import BriefingPanel from './components/BriefingPanel';
+import ShareButton from './components/ShareButton';
+import WatchlistPanel from './components/WatchlistPanel';
+import { openNodeSources } from './services/sources';
+import { ExpansionMerge, mergeExpansion, normalizeLabel } from './services/nodeMatching';
+import { refreshMap, RefreshProgress } from './services/mapRefresh';
+import { diffMaps } from './services/mapDiff';
+import { ARROW_DIRECTIONS, findNodeInDirection } from './services/spatialNav';
+import { createChildNode, edgeEndpointId, indexNodes, buildChildIndex } from './services/graphUtils';
+import { shouldUseCanvas, findNodeAt, findEdgeAt, DIMMED_ALPHA } from './services/graphRender';
+import { LayoutMode, computeLayout, animateToLayout } from './services/layouts';
+import { GraphFilter, DEFAULT_FILTER, filterNodes, filterEdges, findPathToRoot } from './services/graphFilter';
+import { ARROW_LENGTH, ARROW_HALF_WIDTH, EDGE_COLOR, edgeLine } from './services/nodeStyle';
+import { describeEdge, edgeStrokeWidth } from './services/edgeRelations';
+import { animateCamera, centeredOn, fitTransform } from './services/camera';
+import { startAutoExpand, AutoExpandRun, AutoExpandProgress } from './services/autoExpand';
+import { buildBriefingRequest, createBriefing } from './services/briefing';
+import { SharedMap, createShareLink, hasShareLink, parseShareLink, clearShareLinkFromUrl } from './services/shareLink';
+import { ViewTransform } from './services/graphRender';
+import { loadWatchlist, saveWatchlist } from './services/watchlistStore';
+import {
+  WATCH_TICK_MS, MAX_WATCH_ALERTS, watchlistEntryId, createWatchlistEntry, isWatchDue, compareWatchResults,
+  mergeWatchResults, mergeIntoHistoryItem, createWatchAlerts, notifyWatchAlert,
+} from './services/watchlist';
+import {
+  GraphCommand, GraphState, createCommandStack, addToGraphCommand, removeNodesCommand, editNodeCommand,
+  compositeCommand, subtreeOf, createManualEdge, isLinked,
+} from './services/graphCommands';
+import { TrendFetchError, throwIfAborted, toTrendFetchError } from './services/trendErrors';
+import { withRetry } from './services/retry';
 
 // Constants
 const IDEAL_DISTANCE = 220;
@@ -12,6 +59,12 @@ const DRAG_THRESHOLD = 3;
 const MIN_ZOOM = 0.2;
 const MAX_ZOOM = 3;
 const ZOOM_SENSITIVITY = 0.001;
+const HISTORY_SAVE_DELAY = 400;
+const KEYBOARD_PAN_STEP = 80;
+const KEYBOARD_ZOOM_FACTOR = 1.2;
+const FOCUS_MARGIN = 120; // Screen-space margin kept around a keyboard-focused node
+const EDGE_HOVER_TOLERANCE = 6; // Screen pixels either side of an edge that still count as hovering it
+const READ_ONLY_NODE_KEYS = new Set(['o', 'O', 'Home', 'Escape']);
 
 const App: React.FC = () => {
   // State
@@ -20,11 +73,74 @@ const App: React.FC = () => {
   const [inputValue, setInputValue] = useState('');
   const [isInitialSearching, setIsInitialSearching] = useState(false);
   const [expandingNodeIds, setExpandingNodeIds] = useState<Set<string>>(new Set());
+  const [expansionErrors, setExpansionErrors] = useState<Map<string, TrendFetchError>>(new Map());
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [detailNodeId, setDetailNodeId] = useState<string | null>(null);
+  const [refreshingHistoryId, setRefreshingHistoryId] = useState<string | null>(null);
+  const [refreshProgress, setRefreshProgress] = useState<RefreshProgress | null>(null);
+  const [refreshError, setRefreshError] = useState<TrendFetchError | null>(null);
+  const [isDiffVisible, setIsDiffVisible] = useState(true);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
+  const [linkSourceId, setLinkSourceId] = useState<string | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('force');
+  const [filter, setFilter] = useState<GraphFilter>(DEFAULT_FILTER);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isLegendOpen, setIsLegendOpen] = useState(false);
+  const [pathTargetId, setPathTargetId] = useState<string | null>(null);
+  const [autoExpand, setAutoExpand] = useState<{ rootLabel: string; progress: AutoExpandProgress } | null>(null);
+  const [undoState, setUndoState] = useState<{ undo?: string; redo?: string }>({});
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isBriefingOpen, setIsBriefingOpen] = useState(false);
+  const [isGeneratingBriefing, setIsGeneratingBriefing] = useState(false);
+  const [briefingError, setBriefingError] = useState<TrendFetchError | null>(null);
+  const [sharedMap, setSharedMap] = useState<SharedMap | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([]);
+  const [watchAlerts, setWatchAlerts] = useState<WatchAlert[]>([]);
+  const [watchToast, setWatchToast] = useState<WatchAlert | null>(null);
+  const [checkingWatchIds, setCheckingWatchIds] = useState<Set<string>>(new Set());
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState(false);
+  const [watchlistSeenAt, setWatchlistSeenAt] = useState(Date.now);
+  const [announcement, setAnnouncement] = useState('');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   const [isStarted, setIsStarted] = useState(false);
   const [viewTransform, setViewTransform] = useState({ x: 0, y: 0, k: 1 });
+  // d3 and the layout tween move nodes in place; a new frame re-renders them without copying the
+  // graph arrays, so anything memoized on nodes or edges is only recomputed when the graph changes
+  const [, setFrame] = useState(0);
+  const renderFrame = () => setFrame(frame => frame + 1);
+
+  // A shared link is shown in a viewer that cannot change the map or reach the provider
+  const isReadOnly = sharedMap !== null;
+  const trendProvider = useMemo(() => createTrendProvider(settings), [settings]);
+  const useCanvas = shouldUseCanvas(settings.rendering.mode, nodes.length);
+  const matchIds = useMemo(() => filterNodes(nodes, edges, filter), [nodes, edges, filter]);
+  const edgeMatchIds = useMemo(() => filterEdges(edges, matchIds, filter), [edges, matchIds, filter]);
+  const nodesById = useMemo(() => indexNodes(nodes), [nodes]);
+  const maxLevel = useMemo(() => nodes.reduce((max, n) => Math.max(max, n.level), 0), [nodes]);
+  // Tab walks the nodes in graph order; in canvas mode only one of them is a tab stop at a time
+  const tabOrder = useMemo(
+    () => filter.mode === 'hide' && matchIds ? nodes.filter(n => matchIds.has(n.id)) : nodes,
+    [nodes, matchIds, filter.mode]
+  );
+  const highlightedPath = useMemo(
+    () => pathTargetId ? findPathToRoot(pathTargetId, nodes, edges) : null,
+    [pathTargetId, nodes, edges]
+  );
+
+  // A refreshed version is compared against the version it was re-run from
+  const currentHistoryItem = history.find(h => h.id === currentHistoryId);
+  const previousVersion = currentHistoryItem?.previousVersionId ? history.find(h => h.id === currentHistoryItem.previousVersionId) : undefined;
+  const previousNodes = previousVersion?.nodes;
+  const mapDiff = useMemo(
+    () => previousNodes ? diffMaps(previousNodes, nodes, { threshold: settings.matching.threshold }) : null,
+    [previousNodes, nodes, settings.matching.threshold]
+  );
 
   // Refs
   const simulationRef = useRef<d3.Simulation<any, undefined> | null>(null);
@@ -33,6 +149,120 @@ const App: React.FC = () => {
   const dragStartPosRef = useRef({ x: 0, y: 0 });
   const panOffsetRef = useRef({ x: 0, y: 0 });
   const hasMovedRef = useRef(false);
+  // Pointers currently down on the map; two of them make a pinch
+  const activePointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; midX: number; midY: number; view: ViewTransform } | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const worldLayerRef = useRef<HTMLDivElement>(null);
+  const isHistoryLoadedRef = useRef(false);
+  const isWatchlistLoadedRef = useRef(false);
+  const syncPositionsRef = useRef<() => void>(() => {});
+  const stopLayoutAnimationRef = useRef<() => void>(() => {});
+  const stopCameraRef = useRef<() => void>(() => {});
+  const expansionControllersRef = useRef(new Map<string, AbortController>());
+  const autoExpandRunRef = useRef<AutoExpandRun | null>(null);
+  const refreshControllerRef = useRef<AbortController | null>(null);
+  const graphRef = useRef({ nodes, edges });
+  graphRef.current = { nodes, edges };
+  // Async work (expansions, translations) must write into the session that is current when it finishes
+  const currentHistoryIdRef = useRef(currentHistoryId);
+  currentHistoryIdRef.current = currentHistoryId;
+  const commandStackRef = useRef(createCommandStack());
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  // Restore persisted sessions once on startup
+  useEffect(() => {
+    loadHistory()
+      .then(stored => {
+        setHistory(current => [...current, ...stored.filter(s => !current.some(c => c.id === s.id))]);
+        isHistoryLoadedRef.current = true;
+      })
+      // Without a successful load we never write, so a broken read cannot wipe stored sessions
+      .catch(err => console.error("Failed to load history:", err));
+  }, []);
+
+  useEffect(() => {
+    loadWatchlist()
+      .then(stored => {
+        setWatchlist(current => [...current, ...stored.filter(s => !current.some(c => c.id === s.id))]);
+        isWatchlistLoadedRef.current = true;
+      })
+      .catch(err => console.error("Failed to load watchlist:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!isWatchlistLoadedRef.current) return;
+    const timer = setTimeout(() => {
+      saveWatchlist(watchlist).catch(err => console.error("Failed to save watchlist:", err));
+    }, HISTORY_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [watchlist]);
+
+  // Polls due watchlist entries one at a time; results merge into maps, so both stores must be loaded first
+  useEffect(() => {
+    let isChecking = false;
+    const timer = setInterval(() => {
+      if (isChecking || !isHistoryLoadedRef.current || !isWatchlistLoadedRef.current) return;
+      isChecking = true;
+      checkDueWatchEntriesRef.current().finally(() => { isChecking = false; });
+    }, WATCH_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Open a shared map from the URL fragment, on startup and when a link is pasted into this tab
+  useEffect(() => {
+    const openFromHash = () => {
+      if (!hasShareLink(window.location.hash)) return;
+      parseShareLink(window.location.hash)
+        .then(shared => {
+          setShareLinkError(null);
+          setSharedMap(shared);
+          showMap(shared.item, null, shared.view);
+        })
+        .catch(err => {
+          console.error("Failed to open share link:", err);
+          setShareLinkError(err instanceof Error ? err.message : "This share link cannot be opened");
+          clearShareLinkFromUrl();
+        });
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  // Drop expired cache entries left over from earlier visits
+  useEffect(() => {
+    const ttl = cacheTtlMs(settings);
+    if (ttl > 0) pruneTrendCache(ttl).catch(err => console.error("Failed to prune trend cache:", err));
+  }, []);
+
+  // Persist sessions after changes settle
+  useEffect(() => {
+    if (!isHistoryLoadedRef.current) return;
+    const timer = setTimeout(() => {
+      saveHistory(history).catch(err => console.error("Failed to save history:", err));
+    }, HISTORY_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [history]);
+
+  // Node positions are mutated in place by d3; copy the settled layout into the current session
+  syncPositionsRef.current = () => {
+    if (!currentHistoryId) return;
+    setHistory(h => h.map(item => item.id === currentHistoryId ? { ...item, nodes: [...nodes] } : item));
+  };
+
+  // Fixed layouts tween every unpinned node to its slot instead of running forces
+  const runLayout = (mode: LayoutMode) => {
+    stopLayoutAnimationRef.current();
+    if (mode === 'force') return;
+    const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+    const targets = computeLayout(mode, currentNodes, currentEdges, { x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    stopLayoutAnimationRef.current = animateToLayout(currentNodes, targets, {
+      onFrame: renderFrame,
+      onEnd: () => syncPositionsRef.current(),
+    });
+  };
 
   // Initialize and update D3 Simulation
   useEffect(() => {
@@ -49,20 +279,11 @@ const App: React.FC = () => {
         }).iterations(4))
         .alphaDecay(0.02); // Slower decay for smoother settling
 
-      simulationRef.current.on("tick", () => {
-        // Essential: Trigger React re-render without deep cloning
-        setNodes(prev => [...prev]);
-      });
+      simulationRef.current.on("tick", renderFrame);
+      simulationRef.current.on("end", () => syncPositionsRef.current());
     }
 
     const sim = simulationRef.current;
-    
-    // Maintain simulation energy if nodes are expanding or being dragged
-    if (expandingNodeIds.size > 0 || dragNodeRef.current) {
-      sim.alphaTarget(0.1).restart();
-    } else {
-      sim.alphaTarget(0);
-    }
 
     // Sync structural data
     sim.nodes(nodes as any);
@@ -76,6 +297,20 @@ const App: React.FC = () => {
       });
     (sim.force("link") as d3.ForceLink<any, any>).links(validLinks);
 
+    if (layoutMode !== 'force') {
+      sim.stop();
+      if (nodes.length > 0) runLayout(layoutMode);
+      return;
+    }
+    stopLayoutAnimationRef.current();
+
+    // Maintain simulation energy if nodes are expanding or being dragged
+    if (expandingNodeIds.size > 0 || dragNodeRef.current) {
+      sim.alphaTarget(0.1).restart();
+    } else {
+      sim.alphaTarget(0);
+    }
+
     // Re-heat simulation on structure change
     if (nodes.length > 0) {
       sim.alpha(Math.max(sim.alpha(), 0.3)).restart();
@@ -84,59 +319,192 @@ const App: React.FC = () => {
     return () => {
       if (expandingNodeIds.size === 0 && !dragNodeRef.current) sim.stop();
     };
-  }, [nodes.length, edges.length, expandingNodeIds.size]); 
+  }, [nodes.length, edges.length, expandingNodeIds.size, layoutMode]); 
+
+  // Zoom to newK while keeping the given screen point fixed
+  const zoomAt = (newK: number, screenX: number, screenY: number) => {
+    stopCameraRef.current();
+    setViewTransform(prev => {
+      const k = Math.min(Math.max(newK, MIN_ZOOM), MAX_ZOOM);
+      const worldX = (screenX - prev.x) / prev.k;
+      const worldY = (screenY - prev.y) / prev.k;
+      return { x: screenX - worldX * k, y: screenY - worldY * k, k };
+    });
+  };
 
   // Handle zooming
   const handleWheel = (e: React.WheelEvent) => {
     const delta = -e.deltaY * ZOOM_SENSITIVITY;
-    const newK = Math.min(Math.max(viewTransform.k + delta, MIN_ZOOM), MAX_ZOOM);
-    const mouseX = e.clientX;
-    const mouseY = e.clientY;
-    const worldX = (mouseX - viewTransform.x) / viewTransform.k;
-    const worldY = (mouseY - viewTransform.y) / viewTransform.k;
-    const newX = mouseX - worldX * newK;
-    const newY = mouseY - worldY * newK;
-    setViewTransform({ x: newX, y: newY, k: newK });
-  };
-
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (dragNodeRef.current || e.button === 1) return;
+    zoomAt(viewTransform.k + delta, e.clientX, e.clientY);
+  };
+
+  // Pan just enough to bring a node (plus margin) back on screen
+  const revealNode = (node: TrendNode) => {
+    setViewTransform(prev => {
+      const sx = node.x * prev.k + prev.x;
+      const sy = node.y * prev.k + prev.y;
+      const dx = sx < FOCUS_MARGIN ? FOCUS_MARGIN - sx : sx > window.innerWidth - FOCUS_MARGIN ? window.innerWidth - FOCUS_MARGIN - sx : 0;
+      const dy = sy < FOCUS_MARGIN ? FOCUS_MARGIN - sy : sy > window.innerHeight - FOCUS_MARGIN ? window.innerHeight - FOCUS_MARGIN - sy : 0;
+      return dx || dy ? { ...prev, x: prev.x + dx, y: prev.y + dy } : prev;
+    });
+  };
+
+  // Animated pan (and zoom in if needed) that brings a node to the middle of the screen
+  const flyTo = (node: TrendNode) => {
+    stopCameraRef.current();
+    stopCameraRef.current = animateCamera(viewTransform, centeredOn(node.x, node.y, Math.max(viewTransform.k, 1)), setViewTransform);
+  };
+
+  // Animated move to a camera that shows every node
+  const fitAll = () => {
+    if (nodes.length === 0) return;
+    stopCameraRef.current();
+    stopCameraRef.current = animateCamera(viewTransform, fitTransform(nodes, MIN_ZOOM, MAX_ZOOM), setViewTransform);
+  };
+
+  const centerOnRoot = () => {
+    const root = nodes.find(n => n.isInitial) ?? nodes[0];
+    if (root) flyTo(root);
+  };
+
+  // Minimap navigation: a click glides there, dragging the viewport follows the pointer
+  const centerViewOn = (worldX: number, worldY: number, animate: boolean) => {
+    stopCameraRef.current();
+    const target = centeredOn(worldX, worldY, viewTransform.k);
+    if (animate) stopCameraRef.current = animateCamera(viewTransform, target, setViewTransform);
+    else setViewTransform(target);
+  };
+
+  // Canvas-drawn nodes have no elements to hit, so pointers are tested against node positions
+  const nodeAtPoint = (clientX: number, clientY: number) => {
+    const worldX = (clientX - viewTransform.x) / viewTransform.k;
+    const worldY = (clientY - viewTransform.y) / viewTransform.k;
+    const candidates = matchIds && filter.mode === 'hide' ? graphRef.current.nodes.filter(n => matchIds.has(n.id)) : graphRef.current.nodes;
+    return findNodeAt(candidates, worldX, worldY);
+  };
+
+  // Edges are hit-tested the same way in both render modes; the DOM node layer covers the SVG lines
+  const edgeAtPoint = (clientX: number, clientY: number) => {
+    const worldX = (clientX - viewTransform.x) / viewTransform.k;
+    const worldY = (clientY - viewTransform.y) / viewTransform.k;
+    const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+    const candidates = edgeMatchIds && filter.mode === 'hide' ? currentEdges.filter(e => edgeMatchIds.has(e.id)) : currentEdges;
+    return findEdgeAt(currentNodes, candidates, worldX, worldY, EDGE_HOVER_TOLERANCE / viewTransform.k);
+  };
+
+  const measurePinch = () => {
+    const [a, b] = [...activePointersRef.current.values()];
+    return { distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
+  };
+
+  const startPan = (x: number, y: number) => {
     isPanningRef.current = true;
-    dragStartPosRef.current = { x: e.clientX, y: e.clientY };
+    dragStartPosRef.current = { x, y };
     panOffsetRef.current = { x: viewTransform.x, y: viewTransform.y };
   };
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (dragNodeRef.current) {
+  // Pinned nodes, and nodes dropped with Shift held, keep their fixed position; others rejoin the layout
+  const endNodeDrag = (keepPosition: boolean) => {
+    const node = dragNodeRef.current;
+    if (!node) return;
+    dragNodeRef.current = null;
+    if (node.pinned || (keepPosition && hasMovedRef.current)) {
+      patchNode(node.id, { pinned: true, fx: node.fx ?? node.x, fy: node.fy ?? node.y });
+    } else {
+      node.fx = null;
+      node.fy = null;
+    }
+    simulationRef.current?.alphaTarget(0);
+    if (layoutMode !== 'force' && hasMovedRef.current) syncPositionsRef.current();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    activePointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (activePointersRef.current.size === 2) {
+      // A second finger turns whatever the first one started into a pinch
+      stopCameraRef.current();
+      hasMovedRef.current = true;
+      endNodeDrag(false);
+      isPanningRef.current = false;
+      pinchRef.current = { ...measurePinch(), view: viewTransform };
+      return;
+    }
+    if (activePointersRef.current.size > 2 || dragNodeRef.current || e.button === 1) return;
+    if ((e.target as HTMLElement).closest('[data-node-id]')) return;
+    // Touch has no hover, so in canvas mode a tap promotes the node under it and a second tap acts on it;
+    // a tap next to an edge shows its label
+    if (e.pointerType !== 'mouse') {
+      const node = useCanvas ? nodeAtPoint(e.clientX, e.clientY) : undefined;
+      if (useCanvas) setHoveredNodeId(node?.id ?? null);
+      setHoveredEdgeId(node ? null : edgeAtPoint(e.clientX, e.clientY)?.id ?? null);
+    }
+    stopCameraRef.current();
+    startPan(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (activePointersRef.current.has(e.pointerId)) activePointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pinch = pinchRef.current;
+    if (pinch) {
+      // Zoom about the point between the fingers and follow it as they move together
+      const { distance, midX, midY } = measurePinch();
+      const k = Math.min(Math.max(pinch.view.k * distance / pinch.distance, MIN_ZOOM), MAX_ZOOM);
+      const worldX = (pinch.midX - pinch.view.x) / pinch.view.k;
+      const worldY = (pinch.midY - pinch.view.y) / pinch.view.k;
+      setViewTransform({ x: midX - worldX * k, y: midY - worldY * k, k });
+    } else if (dragNodeRef.current) {
       const dx = Math.abs(e.clientX - dragStartPosRef.current.x);
       const dy = Math.abs(e.clientY - dragStartPosRef.current.y);
       if (dx > DRAG_THRESHOLD || dy > DRAG_THRESHOLD) hasMovedRef.current = true;
       
       const worldX = (e.clientX - viewTransform.x) / viewTransform.k;
       const worldY = (e.clientY - viewTransform.y) / viewTransform.k;
-      dragNodeRef.current.fx = worldX;
-      dragNodeRef.current.fy = worldY;
-      simulationRef.current?.alphaTarget(0.1).restart();
+      if (layoutMode === 'force') {
+        dragNodeRef.current.fx = worldX;
+        dragNodeRef.current.fy = worldY;
+        simulationRef.current?.alphaTarget(0.1).restart();
+      } else {
+        // No simulation in fixed layouts: move the node directly
+        dragNodeRef.current.x = worldX;
+        dragNodeRef.current.y = worldY;
+        if (dragNodeRef.current.pinned) {
+          dragNodeRef.current.fx = worldX;
+          dragNodeRef.current.fy = worldY;
+        }
+        renderFrame();
+      }
     } else if (isPanningRef.current) {
       const dx = e.clientX - dragStartPosRef.current.x;
       const dy = e.clientY - dragStartPosRef.current.y;
       setViewTransform(prev => ({ ...prev, x: panOffsetRef.current.x + dx, y: panOffsetRef.current.y + dy }));
+    } else if (e.pointerType === 'mouse') {
+      const target = e.target as HTMLElement;
+      const isOverNode = !!target.closest('[data-node-id]');
+      // Canvas-drawn nodes have no elements to hover; promote the one under the cursor to a DOM node
+      const node = useCanvas && !isOverNode ? nodeAtPoint(e.clientX, e.clientY) : undefined;
+      if (useCanvas && !isOverNode) setHoveredNodeId(node?.id ?? null);
+      const isOverMap = target === canvasRef.current || !!worldLayerRef.current?.contains(target);
+      setHoveredEdgeId(isOverMap && !isOverNode && !node ? edgeAtPoint(e.clientX, e.clientY)?.id ?? null : null);
     }
-  }, [viewTransform]);
-
-  const handleMouseUp = useCallback(() => {
-    if (dragNodeRef.current) {
-      dragNodeRef.current.fx = null;
-      dragNodeRef.current.fy = null;
-      dragNodeRef.current = null;
-      simulationRef.current?.alphaTarget(0);
+  }, [viewTransform, useCanvas, layoutMode, matchIds, edgeMatchIds, filter.mode]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    activePointersRef.current.delete(e.pointerId);
+    if (pinchRef.current) {
+      if (activePointersRef.current.size >= 2) return;
+      // Lifting one finger of a pinch carries on as a pan with the other
+      pinchRef.current = null;
+      const [rest] = activePointersRef.current.values();
+      if (rest) startPan(rest.x, rest.y);
+      return;
     }
+    endNodeDrag(e.shiftKey);
     isPanningRef.current = false;
-  }, []);
+  }, [layoutMode, viewTransform]);
 
-  const handleNodeMouseDown = (e: React.MouseEvent, node: TrendNode) => {
-    e.stopPropagation(); 
-    if (e.button !== 0) return;
+  // Not stopped from bubbling: the map still has to count this pointer for a pinch
+  const handleNodePointerDown = (e: React.PointerEvent, node: TrendNode) => {
+    if (e.button !== 0 || isReadOnly || activePointersRef.current.size > 0) return;
     dragNodeRef.current = node;
     dragStartPosRef.current = { x: e.clientX, y: e.clientY };
     hasMovedRef.current = false;
@@ -148,6 +516,12 @@ const App: React.FC = () => {
     if (!query || isInitialSearching) return;
 
     setIsInitialSearching(true);
+    if (!graphRef.current.nodes.some(n => n.isSelected)) clearUndoStack();
+    // The query starts a new session; results still streaming in were asked for by the old one
+    autoExpandRunRef.current?.cancel();
+    autoExpandRunRef.current = null;
+    expansionControllersRef.current.forEach(controller => controller.abort());
+    refreshControllerRef.current?.abort();
     const nodeId = Math.random().toString(36).substr(2, 9);
     const centerX = window.innerWidth / 2;
     const centerY = window.innerHeight / 2;
@@ -157,12 +531,13 @@ const App: React.FC = () => {
       const newNode: TrendNode = {
         id: nodeId,
         label: query,
-        translation: query.match(/[\u4e00-\u9fa5]/) ? 'Processing...' : query, 
+        translation: '', // Filled in by translateQueryNode once the provider answers
         x: centerX + (Math.random() - 0.5) * 40,
         y: centerY + (Math.random() - 0.5) * 40,
         level: selectedOnes.length > 0 ? Math.max(...selectedOnes.map(n => n.level)) + 1 : 0,
         isSelected: false,
         isInitial: prevNodes.length === 0,
+        isManual: true,
         weight: 10,
       };
 
@@ -175,6 +550,7 @@ const App: React.FC = () => {
       const histId = Date.now().toString();
       setHistory(h => [{ id: histId, query, timestamp: Date.now(), nodes: nextNodes, edges: nextEdges }, ...h]);
       setCurrentHistoryId(histId);
+      currentHistoryIdRef.current = histId;
       
       if (prevNodes.length === 0) setViewTransform({ x: 0, y: 0, k: 1 });
       return nextNodes;
@@ -183,48 +559,182 @@ const App: React.FC = () => {
     setIsStarted(true);
     setInputValue('');
     setIsInitialSearching(false);
+    translateQueryNode(nodeId, query);
+  };
+
+  const translateQueryNode = async (nodeId: string, query: string) => {
+    try {
+      const translation = await withRetry(() => trendProvider.translate(query, settings.expansion));
+      patchNode(nodeId, { translation });
+    } catch (err) {
+      console.error("Translation failed:", err);
+      patchNode(nodeId, { translation: query });
+    }
+  };
+
+  // Replaces the graph and writes it into the current session
+  const commitGraph = ({ nodes: nextNodes, edges: nextEdges }: GraphState) => {
+    graphRef.current = { nodes: nextNodes, edges: nextEdges };
+    setNodes(nextNodes);
+    setEdges(nextEdges);
+    const historyId = currentHistoryIdRef.current;
+    if (historyId) {
+      setHistory(h => h.map(item => item.id === historyId ? { ...item, nodes: nextNodes, edges: nextEdges } : item));
+    }
   };
 
-  const handleNodeClick = async (targetNode: TrendNode) => {
-    if (hasMovedRef.current || expandingNodeIds.has(targetNode.id)) return;
+  const syncUndoState = () => {
+    const stack = commandStackRef.current;
+    setUndoState({ undo: stack.peekUndo()?.label, redo: stack.peekRedo()?.label });
+  };
+
+  // Every user-visible graph change goes through here so it can be undone
+  const runCommand = (command: GraphCommand) => {
+    commitGraph(commandStackRef.current.execute(command, graphRef.current));
+    syncUndoState();
+  };
+
+  const undo = () => {
+    const label = commandStackRef.current.peekUndo()?.label;
+    const next = commandStackRef.current.undo(graphRef.current);
+    if (!next) return;
+    commitGraph(next);
+    syncUndoState();
+    setAnnouncement(`Undid ${label}`);
+  };
+
+  const redo = () => {
+    const label = commandStackRef.current.peekRedo()?.label;
+    const next = commandStackRef.current.redo(graphRef.current);
+    if (!next) return;
+    commitGraph(next);
+    syncUndoState();
+    setAnnouncement(`Redid ${label}`);
+  };
+
+  const clearUndoStack = () => {
+    commandStackRef.current.clear();
+    setUndoState({});
+  };
+
+  // Simulation nodes are shared with d3, so metadata is patched in place to keep its references valid
+  const patchNode = (id: string, patch: Partial<TrendNode>) => {
+    const node = graphRef.current.nodes.find(n => n.id === id);
+    if (!node) return;
+    Object.assign(node, patch);
+    setNodes(prev => [...prev]);
+    const historyId = currentHistoryIdRef.current;
+    if (historyId) {
+      setHistory(h => h.map(item => item.id === historyId ? { ...item, nodes: [...graphRef.current.nodes] } : item));
+    }
+  };
+
+  // Resolves to the node's children from this expansion (new and linked), the error it ended with,
+  // or null when the node was already expanding
+  const expandNode = async (targetNode: TrendNode, { bypassCache = false } = {}): Promise<TrendNode[] | TrendFetchError | null> => {
+    if (expandingNodeIds.has(targetNode.id)) return null;
     
     // Atomic expansion state update
     setExpandingNodeIds(prev => new Set(prev).add(targetNode.id));
+    setExpansionErrors(prev => {
+      if (!prev.has(targetNode.id)) return prev;
+      const next = new Map(prev);
+      next.delete(targetNode.id);
+      return next;
+    });
+    const controller = new AbortController();
+    expansionControllersRef.current.set(targetNode.id, controller);
+    const mapId = currentHistoryIdRef.current;
+    // Results only belong on the map they were asked for, under a parent that has not been deleted since
+    const isParentOnMap = () =>
+      currentHistoryIdRef.current === mapId && graphRef.current.nodes.some(n => n.id === targetNode.id);
 
-    try {
-      const trends = await fetchNewsTrends(targetNode.label);
-      if (trends.length === 0) throw new Error("No trends found");
-
-      const newNodes: TrendNode[] = trends.map((trend, i) => {
-        const angle = (i / trends.length) * Math.PI * 2;
-        const dist = 50;
-        return {
-          id: Math.random().toString(36).substr(2, 9),
-          label: trend.keyword,
-          translation: trend.translation,
-          weight: trend.weight,
-          x: targetNode.x + Math.cos(angle) * dist,
-          y: targetNode.y + Math.sin(angle) * dist,
-          level: targetNode.level + 1,
-          isSelected: false,
-        };
+    const matchOptions = { threshold: settings.matching.threshold };
+    // Results already on the map, keyed by normalized keyword so a retried stream does not place them twice
+    const placed = new Set<string>();
+    const streamed: ExpansionMerge = { newNodes: [], newEdges: [], matchedNodes: [] };
+    const streamedNodes = new Map<string, TrendNode>();
+
+    // Streamed results go on the map at once, outside the undo stack; finishExpansion records them as one step
+    const placeTrend = (trend: TrendKeyword) => {
+      const key = normalizeLabel(trend.keyword);
+      if (placed.has(key) || controller.signal.aborted || !isParentOnMap()) return;
+      placed.add(key);
+      const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+      const merge = mergeExpansion(targetNode, [trend], currentNodes, currentEdges,
+        t => createChildNode(targetNode, t, placed.size - 1, settings.expansion.maxResults), matchOptions);
+      merge.newNodes.forEach(node => streamedNodes.set(key, node));
+      streamed.newNodes.push(...merge.newNodes);
+      streamed.newEdges.push(...merge.newEdges);
+      streamed.matchedNodes.push(...merge.matchedNodes);
+      if (merge.newEdges.length > 0) commitGraph({ nodes: [...currentNodes, ...merge.newNodes], edges: [...currentEdges, ...merge.newEdges] });
+    };
+
+    // Merges whatever did not stream (everything, for cached results) and turns the expansion into one undo step.
+    // The streamed nodes are taken out and put back as the same objects, so nothing moves on screen.
+    const finishExpansion = (trends: TrendKeyword[], expansion?: TrendNode['expansion']) => {
+      if (currentHistoryIdRef.current !== mapId) return { newNodes: [], matchedNodes: [] };
+      if (!isParentOnMap()) {
+        // The parent was deleted mid-stream: take back what streamed in, which was never on the undo stack
+        const streamedIds = new Set([...streamed.newNodes.map(n => n.id), ...streamed.newEdges.map(e => e.id)]);
+        const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+        if (streamedIds.size > 0) commitGraph({ nodes: currentNodes.filter(n => !streamedIds.has(n.id)), edges: currentEdges.filter(e => !streamedIds.has(e.id)) });
+        return { newNodes: [], matchedNodes: [] };
+      }
+      // The complete list carries grounding sources that were not known while streaming
+      trends.forEach(trend => {
+        const node = streamedNodes.get(normalizeLabel(trend.keyword));
+        if (node && trend.sources) node.sources = trend.sources;
       });
+      const rest = trends.filter(trend => !placed.has(normalizeLabel(trend.keyword)));
+      const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+      const merge = mergeExpansion(targetNode, rest, currentNodes, currentEdges,
+        (trend, i) => createChildNode(targetNode, trend, i, rest.length), matchOptions);
+      // Anything deleted while the results were streaming stays deleted
+      const newNodes = [...streamed.newNodes.filter(n => currentNodes.includes(n)), ...merge.newNodes];
+      const newEdges = [...streamed.newEdges.filter(e => currentEdges.includes(e)), ...merge.newEdges];
+      const streamedIds = new Set([...streamed.newNodes.map(n => n.id), ...streamed.newEdges.map(e => e.id)]);
+      graphRef.current = { nodes: currentNodes.filter(n => !streamedIds.has(n.id)), edges: currentEdges.filter(e => !streamedIds.has(e.id)) };
+      if (newEdges.length > 0 || expansion) {
+        runCommand(compositeCommand(`expand “${targetNode.label}”`, [
+          addToGraphCommand('add results', newNodes, newEdges),
+          ...(expansion ? [editNodeCommand('mark expanded', targetNode.id, { expansion })] : []),
+        ]));
+      } else {
+        graphRef.current = { nodes: currentNodes, edges: currentEdges };
+      }
+      return { newNodes, matchedNodes: [...streamed.matchedNodes.filter(n => currentNodes.includes(n)), ...merge.matchedNodes] };
+    };
 
-      setNodes(currentNodes => {
-        const nextNodes = [...currentNodes, ...newNodes];
-        setEdges(currentEdges => {
-          const nextEdges = [...currentEdges, ...newNodes.map(nn => ({ id: `e-${targetNode.id}-${nn.id}`, source: targetNode.id, target: nn.id }))];
-          if (currentHistoryId) {
-            setHistory(h => h.map(item => item.id === currentHistoryId ? { ...item, nodes: nextNodes, edges: nextEdges } : item));
-          }
-          return nextEdges;
-        });
-        return nextNodes;
+    try {
+      const { trends, fetchedAt, fromCache } = await fetchTrendsCached(trendProvider, targetNode.label, {
+        expansion: settings.expansion,
+        ttlMs: cacheTtlMs(settings),
+        bypassCache,
+        onTrend: placeTrend,
+        signal: controller.signal,
       });
+      throwIfAborted(controller.signal);
+      if (trends.length === 0) throw new TrendFetchError('empty', `The provider returned no trends for "${targetNode.label}"`);
+
+      const { newNodes, matchedNodes } = finishExpansion(trends, { fetchedAt, fromCache });
+      setAnnouncement(`${targetNode.label}: ${newNodes.length} new trends${matchedNodes.length ? `, ${matchedNodes.length} linked to existing nodes` : ''}`);
+      return [...newNodes, ...matchedNodes];
 
     } catch (err) {
-      console.error("Expand failed:", err);
+      const error = toTrendFetchError(err);
+      // Partial results stay on the map (undoable) but the node is not marked expanded, so a click fetches again
+      const { newNodes } = finishExpansion([]);
+      if (error.kind === 'cancelled') {
+        setAnnouncement(`${targetNode.label}: cancelled${newNodes.length ? ` after ${newNodes.length} trends` : ''}`);
+        return error;
+      }
+      console.error("Expand failed:", error);
+      setExpansionErrors(prev => new Map(prev).set(targetNode.id, error));
+      setAnnouncement(`${targetNode.label}: ${error.title}`);
+      return error;
     } finally {
+      if (expansionControllersRef.current.get(targetNode.id) === controller) expansionControllersRef.current.delete(targetNode.id);
       setExpandingNodeIds(prev => {
         const next = new Set(prev);
         next.delete(targetNode.id);
@@ -233,76 +743,707 @@ const App: React.FC = () => {
     }
   };
 
-  const handleHistoryClick = (item: HistoryItem) => {
+  const cancelExpansion = (nodeId: string) => {
+    expansionControllersRef.current.get(nodeId)?.abort();
+  };
+
+  // A run outlives many renders, so it always calls the latest expandNode (current provider and settings)
+  const expandNodeRef = useRef(expandNode);
+  expandNodeRef.current = expandNode;
+
+  const handleAutoExpand = (root: TrendNode) => {
+    if (autoExpandRunRef.current) return;
+    const run = startAutoExpand(root, settings.autoExpand, {
+      expand: (node) => graphRef.current.nodes.includes(node) ? expandNodeRef.current(node) : Promise.resolve(null),
+      existingChildren: (node) => node.expansion
+        ? buildChildIndex(graphRef.current.nodes, graphRef.current.edges).get(node.id) ?? []
+        : null,
+      abort: (node) => cancelExpansion(node.id),
+      onProgress: (progress) => setAutoExpand({ rootLabel: root.label, progress }),
+    });
+    autoExpandRunRef.current = run;
+    setAnnouncement(`Auto-expanding ${root.label}`);
+    run.finished.then(({ done, failed }) => {
+      if (autoExpandRunRef.current === run) autoExpandRunRef.current = null;
+      setAnnouncement(`Auto-expand finished: ${done} nodes expanded${failed ? `, ${failed} failed` : ''}`);
+    });
+  };
+
+  const handleNodeClick = (targetNode: TrendNode) => {
+    if (hasMovedRef.current || isReadOnly) return;
+    if (linkSourceId) {
+      linkNodes(linkSourceId, targetNode.id);
+      return;
+    }
+    // Clicking a node again while it loads stops the expansion and keeps what has arrived
+    if (expandingNodeIds.has(targetNode.id)) {
+      cancelExpansion(targetNode.id);
+      return;
+    }
+    expandNode(targetNode);
+  };
+
+  // Loads a map onto the canvas; historyId is null for maps that are only being viewed
+  const showMap = (item: HistoryItem, historyId: string | null, view: ViewTransform = { x: 0, y: 0, k: 1 }) => {
     simulationRef.current?.stop();
     simulationRef.current = null;
-    setNodes(item.nodes.map(n => ({ ...n, fx: null, fy: null })));
+    autoExpandRunRef.current?.cancel();
+    autoExpandRunRef.current = null;
+    // Results still streaming in belong to the map being left
+    expansionControllersRef.current.forEach(controller => controller.abort());
+    refreshControllerRef.current?.abort();
+    setNodes(item.nodes.map(n => n.pinned ? { ...n, fx: n.fx ?? n.x, fy: n.fy ?? n.y } : { ...n, fx: null, fy: null }));
     setEdges(item.edges);
-    setCurrentHistoryId(item.id);
+    setCurrentHistoryId(historyId);
+    setExpansionErrors(new Map());
     setIsStarted(true);
+    setDetailNodeId(null);
+    setBriefingError(null);
+    setLinkSourceId(null);
+    setPathTargetId(null);
+    clearUndoStack();
+    setViewTransform(view);
+  };
+
+  const handleHistoryClick = (item: HistoryItem) => {
+    if (sharedMap) leaveSharedMap();
+    showMap(item, item.id);
     setIsHistoryOpen(false);
+  };
+
+  const leaveSharedMap = () => {
+    setSharedMap(null);
+    clearShareLinkFromUrl();
+  };
+
+  // The viewer's live layout becomes a normal session that can be edited and expanded
+  const handleImportSharedMap = () => {
+    if (!sharedMap) return;
+    const shared = { ...sharedMap.item, nodes: graphRef.current.nodes, edges: graphRef.current.edges };
+    const item = history.some(h => h.id === shared.id) ? { ...shared, id: Date.now().toString() } : shared;
+    setHistory(h => [item, ...h]);
+    setCurrentHistoryId(item.id);
+    currentHistoryIdRef.current = item.id;
+    leaveSharedMap();
+    setAnnouncement(`Imported ${item.query} into your history`);
+  };
+
+  const handleCloseSharedMap = () => {
+    leaveSharedMap();
+    simulationRef.current?.stop();
+    simulationRef.current = null;
+    setNodes([]);
+    setEdges([]);
+    setIsStarted(false);
     setViewTransform({ x: 0, y: 0, k: 1 });
   };
 
+  const handleCreateShareLink = () => {
+    const source = currentHistoryItem ?? sharedMap?.item;
+    const item: HistoryItem = source
+      ? { ...source, nodes, edges }
+      : { id: Date.now().toString(), query: nodes.find(n => n.isInitial)?.label ?? 'Shared map', timestamp: Date.now(), nodes, edges };
+    return createShareLink(item, viewTransform);
+  };
+
+  // Briefings are saved newest first into the session that was current when generation started
+  const handleGenerateBriefing = async () => {
+    const historyId = currentHistoryIdRef.current;
+    const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+    const selected = currentNodes.filter(n => n.isSelected);
+    if (!historyId || selected.length === 0) return;
+    setIsGeneratingBriefing(true);
+    setBriefingError(null);
+    try {
+      const request = buildBriefingRequest(selected, currentNodes, currentEdges);
+      const report = await withRetry(() => trendProvider.generateBriefing(request, settings.expansion));
+      const briefing = createBriefing(report, selected.map(n => n.id));
+      setHistory(h => h.map(item => item.id === historyId ? { ...item, briefings: [briefing, ...(item.briefings ?? [])] } : item));
+    } catch (err) {
+      console.error("Briefing failed:", err);
+      setBriefingError(toTrendFetchError(err));
+    } finally {
+      setIsGeneratingBriefing(false);
+    }
+  };
+
+  const handleDeleteBriefing = (briefing: Briefing) => {
+    setHistory(h => h.map(item => item.id === currentHistoryId
+      ? { ...item, briefings: (item.briefings ?? []).filter(b => b.id !== briefing.id) }
+      : item));
+  };
+
+  const handleRefreshHistory = async (item: HistoryItem) => {
+    if (refreshingHistoryId) return;
+    setRefreshingHistoryId(item.id);
+    setRefreshError(null);
+    const controller = new AbortController();
+    refreshControllerRef.current = controller;
+    try {
+      // The active session is re-run from its live graph
+      const source = item.id === currentHistoryId ? { ...item, nodes, edges } : item;
+      const refreshed = await refreshMap(source, {
+        fetchTrends: async (query) => (await fetchTrendsCached(trendProvider, query, {
+          expansion: settings.expansion,
+          ttlMs: cacheTtlMs(settings),
+          bypassCache: true,
+          signal: controller.signal,
+        })).trends,
+        onProgress: setRefreshProgress,
+        matchOptions: { threshold: settings.matching.threshold },
+        signal: controller.signal,
+      });
+      setHistory(h => [refreshed, ...h]);
+      handleHistoryClick(refreshed);
+      setIsDiffVisible(true);
+    } catch (err) {
+      const error = toTrendFetchError(err);
+      if (error.kind === 'cancelled') return;
+      console.error("Map refresh failed:", error);
+      setRefreshError(error);
+    } finally {
+      if (refreshControllerRef.current === controller) refreshControllerRef.current = null;
+      setRefreshingHistoryId(null);
+      setRefreshProgress(null);
+    }
+  };
+
+  const handleExportHistory = (item: HistoryItem) => {
+    // The active session is exported with its live positions
+    const source = item.id === currentHistoryId ? { ...item, nodes, edges } : item;
+    downloadFile(sessionFileName(item), serializeSession(source), 'application/json');
+  };
+
+  const handleImportHistory = async (file: File) => {
+    const imported = parseSessionFile(await file.text());
+    const item = history.some(h => h.id === imported.id) ? { ...imported, id: Date.now().toString() } : imported;
+    setHistory(h => [item, ...h]);
+    handleHistoryClick(item);
+  };
+
+  const handleDeleteHistory = (item: HistoryItem) => {
+    setHistory(h => h.filter(entry => entry.id !== item.id));
+    setWatchlist(w => w.filter(entry => entry.historyId !== item.id));
+    if (item.id === currentHistoryId) setCurrentHistoryId(null);
+    if (item.id === refreshingHistoryId) refreshControllerRef.current?.abort();
+  };
+
+  const toggleWatch = (targetNode: TrendNode) => {
+    const historyId = currentHistoryIdRef.current;
+    if (!historyId) return;
+    const id = watchlistEntryId(historyId, targetNode.id);
+    if (watchlist.some(entry => entry.id === id)) {
+      setWatchlist(w => w.filter(entry => entry.id !== id));
+      setAnnouncement(`Stopped watching ${targetNode.label}`);
+      return;
+    }
+    const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+    setWatchlist(w => [...w, createWatchlistEntry(targetNode, historyId, currentNodes, currentEdges)]);
+    setAnnouncement(`Watching ${targetNode.label}`);
+  };
+
+  const updateWatchEntry = (id: string, patch: Partial<WatchlistEntry>) => {
+    setWatchlist(w => w.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  };
+
+  // Re-fetches a watched topic, merges what is new into its map and raises alerts for breaking results
+  const checkWatchEntry = async (entry: WatchlistEntry) => {
+    setCheckingWatchIds(prev => new Set(prev).add(entry.id));
+    const matchOptions = { threshold: settings.matching.threshold };
+    try {
+      const { trends, fetchedAt } = await fetchTrendsCached(trendProvider, entry.label, {
+        expansion: settings.expansion,
+        ttlMs: cacheTtlMs(settings),
+        bypassCache: true,
+      });
+      const { fresh, breaking, keywords } = compareWatchResults(entry, trends);
+      let placed: TrendNode[] = [];
+      let isMerged = true;
+      if (fresh.length > 0 && entry.historyId === currentHistoryIdRef.current) {
+        // The map is on screen: merge through the command stack like any other expansion
+        const parent = graphRef.current.nodes.find(n => n.id === entry.nodeId);
+        if (parent) {
+          const merge = mergeWatchResults(parent, fresh, graphRef.current.nodes, graphRef.current.edges, matchOptions);
+          runCommand(compositeCommand(`watchlist update “${entry.label}”`, [
+            addToGraphCommand('add results', merge.newNodes, merge.newEdges),
+            editNodeCommand('mark expanded', parent.id, { expansion: { fetchedAt, fromCache: false } }),
+          ]));
+          placed = [...merge.newNodes, ...merge.matchedNodes];
+        } else {
+          isMerged = false;
+        }
+      } else if (fresh.length > 0) {
+        const item = historyRef.current.find(h => h.id === entry.historyId);
+        const result = item ? mergeIntoHistoryItem(item, entry, fresh, fetchedAt, matchOptions) : null;
+        if (result?.merge) {
+          setHistory(h => h.map(existing => existing.id === entry.historyId ? result.item : existing));
+          placed = [...result.merge.newNodes, ...result.merge.matchedNodes];
+        } else {
+          isMerged = false;
+        }
+      }
+      updateWatchEntry(entry.id, {
+        lastCheckedAt: Date.now(),
+        lastKeywords: keywords,
+        lastError: isMerged ? undefined : "The watched node is no longer on its map, so new results are not merged",
+      });
+
+      if (breaking.length > 0) {
+        const alerts = createWatchAlerts(entry, breaking, placed, matchOptions);
+        setWatchAlerts(prev => [...alerts, ...prev].slice(0, MAX_WATCH_ALERTS));
+        setWatchToast(alerts[0]);
+        setAnnouncement(`Breaking on ${entry.label}: ${alerts.map(a => a.keyword).join(', ')}`);
+        if (settings.watchlist.notifications) alerts.forEach(alert => notifyWatchAlert(alert, entry));
+      }
+    } catch (err) {
+      const error = toTrendFetchError(err);
+      console.error("Watchlist check failed:", error);
+      updateWatchEntry(entry.id, { lastCheckedAt: Date.now(), lastError: `${error.title}: ${error.message}` });
+    } finally {
+      setCheckingWatchIds(prev => {
+        const next = new Set(prev);
+        next.delete(entry.id);
+        return next;
+      });
+    }
+  };
+
+  // The poll timer is set up once, so it always runs the latest version (current provider, settings and entries)
+  const checkDueWatchEntriesRef = useRef(async () => {});
+  checkDueWatchEntriesRef.current = async () => {
+    const intervalMs = settings.watchlist.intervalMinutes * 60_000;
+    const due = watchlist.filter(entry => isWatchDue(entry, intervalMs) && !checkingWatchIds.has(entry.id));
+    for (const entry of due) await checkWatchEntry(entry);
+  };
+
+  const handleShowWatchAlert = (alert: WatchAlert) => {
+    setWatchToast(null);
+    setIsWatchlistOpen(false);
+    const item = history.find(h => h.id === alert.historyId);
+    if (!item) return;
+    const node = alert.nodeId ? item.nodes.find(n => n.id === alert.nodeId) : undefined;
+    if (item.id === currentHistoryId) {
+      if (node) handlePickMatch(node);
+      return;
+    }
+    handleHistoryClick(item);
+    if (node) {
+      setPathTargetId(node.id);
+      setViewTransform(centeredOn(node.x, node.y, 1));
+    }
+  };
+
+  const handleExportGraph = async (format: ExportFormat) => {
+    const title = history.find(h => h.id === currentHistoryId)?.query ?? nodes.find(n => n.isInitial)?.label ?? 'trendnode';
+    const baseName = toFileSlug(title);
+    try {
+      switch (format) {
+        case 'svg':
+          downloadFile(`${baseName}.svg`, graphToSvg(nodes, edges), 'image/svg+xml');
+          break;
+        case 'png':
+          downloadFile(`${baseName}.png`, await svgToPngBlob(graphToSvg(nodes, edges)), 'image/png');
+          break;
+        case 'graphml':
+          downloadFile(`${baseName}.graphml`, graphToGraphML(nodes, edges), 'application/graphml+xml');
+          break;
+        case 'gexf':
+          downloadFile(`${baseName}.gexf`, graphToGexf(nodes, edges), 'application/gexf+xml');
+          break;
+        case 'markdown':
+          downloadFile(`${baseName}.md`, graphToMarkdown(nodes, edges, title), 'text/markdown');
+          break;
+      }
+    } catch (err) {
+      console.error("Export failed:", err);
+    }
+  };
+
   const handleNodeContextMenu = (e: React.MouseEvent, targetNode: TrendNode) => {
     e.preventDefault();
     e.stopPropagation();
-    setNodes(prev => {
-      const nextNodes = prev.map(n => n.id === targetNode.id ? { ...n, isSelected: !n.isSelected } : n);
-      if (currentHistoryId) {
-        setHistory(h => h.map(item => item.id === currentHistoryId ? { ...item, nodes: nextNodes } : item));
+    if (isReadOnly) return;
+    toggleNodeSelection(targetNode);
+  };
+
+  const togglePin = (targetNode: TrendNode) => {
+    const pinned = !targetNode.pinned;
+    patchNode(targetNode.id, pinned ? { pinned, fx: targetNode.x, fy: targetNode.y } : { pinned, fx: null, fy: null });
+    setAnnouncement(`${targetNode.label} ${pinned ? 'pinned' : 'unpinned'}`);
+    if (layoutMode === 'force') simulationRef.current?.alpha(0.2).restart();
+    else if (!pinned) runLayout(layoutMode);
+  };
+
+  // Selection is view state rather than an edit, so it is patched directly and not undoable
+  const toggleNodeSelection = (targetNode: TrendNode) => {
+    patchNode(targetNode.id, { isSelected: !targetNode.isSelected });
+  };
+
+  const deleteNode = (targetNode: TrendNode) => {
+    runCommand(removeNodesCommand(`delete “${targetNode.label}”`, [targetNode.id]));
+    if (detailNodeId === targetNode.id) setDetailNodeId(null);
+  };
+
+  const pruneSubtree = (targetNode: TrendNode) => {
+    const descendants = subtreeOf(targetNode, graphRef.current.nodes, graphRef.current.edges);
+    if (descendants.length === 0) return;
+    runCommand(removeNodesCommand(`prune “${targetNode.label}”`, descendants.map(n => n.id)));
+    setAnnouncement(`Removed ${descendants.length} nodes below ${targetNode.label}`);
+  };
+
+  const editNode = (targetNode: TrendNode, patch: Pick<TrendNode, 'label' | 'translation'>) => {
+    if (patch.label === targetNode.label && patch.translation === targetNode.translation) return;
+    runCommand(editNodeCommand(`edit “${targetNode.label}”`, targetNode.id, patch));
+  };
+
+  const linkNodes = (sourceId: string, targetId: string) => {
+    setLinkSourceId(null);
+    const { nodes: currentNodes, edges: currentEdges } = graphRef.current;
+    const source = currentNodes.find(n => n.id === sourceId);
+    const target = currentNodes.find(n => n.id === targetId);
+    if (!source || !target || source.id === target.id || isLinked(currentEdges, source.id, target.id)) return;
+    runCommand(addToGraphCommand(`link “${source.label}” → “${target.label}”`, [], [createManualEdge(source.id, target.id)]));
+    setAnnouncement(`Linked ${source.label} to ${target.label}`);
+  };
+
+  const addChildNode = (parent: TrendNode, label: string, translation: string) => {
+    const node: TrendNode = {
+      ...createChildNode(parent, { keyword: label, translation, weight: 0 }, 0, 1),
+      weight: undefined,
+      isManual: true,
+    };
+    runCommand(addToGraphCommand(`add “${label}”`, [node], [createManualEdge(parent.id, node.id)]));
+    if (!translation) translateQueryNode(node.id, label);
+  };
+
+  const focusNode = (node: TrendNode) => {
+    setFocusedNodeId(node.id);
+    revealNode(node);
+  };
+
+  const handleNodeKeyDown = (e: React.KeyboardEvent, node: TrendNode) => {
+    if (e.target !== e.currentTarget) return;
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction && !e.shiftKey) {
+      e.preventDefault();
+      e.stopPropagation();
+      const next = findNodeInDirection(node, nodes, edges, direction);
+      if (next) focusNode(next);
+      return;
+    }
+    if (e.key === 'Tab' && useCanvas) {
+      // Most nodes have no element to tab to on the canvas, so step through the graph order here
+      const next = tabOrder[tabOrder.findIndex(n => n.id === node.id) + (e.shiftKey ? -1 : 1)];
+      if (next) {
+        e.preventDefault();
+        focusNode(next);
       }
-      return nextNodes;
-    });
+      return;
+    }
+    if (isReadOnly && !READ_ONLY_NODE_KEYS.has(e.key)) return;
+
+    switch (e.key) {
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        if (expandingNodeIds.has(node.id)) {
+          cancelExpansion(node.id);
+          break;
+        }
+        expandNode(node);
+        setAnnouncement(`Expanding ${node.label}`);
+        break;
+      case 's':
+      case 'S':
+        toggleNodeSelection(node);
+        setAnnouncement(`${node.label} ${node.isSelected ? 'deselected' : 'selected'}`);
+        break;
+      case 'o':
+      case 'O':
+        openNodeSources(node);
+        break;
+      case 'i':
+      case 'I':
+        setDetailNodeId(id => id === node.id ? null : node.id);
+        break;
+      case 'r':
+      case 'R':
+        if (node.expansion) expandNode(node, { bypassCache: true });
+        break;
+      case 'l':
+      case 'L':
+        if (linkSourceId) {
+          linkNodes(linkSourceId, node.id);
+        } else {
+          setLinkSourceId(node.id);
+          setAnnouncement(`Linking from ${node.label}. Move to another node and press L again.`);
+        }
+        break;
+      case 'p':
+      case 'P':
+        pruneSubtree(node);
+        break;
+      case 'f':
+      case 'F':
+        togglePin(node);
+        break;
+      case 'a':
+      case 'A':
+        handleAutoExpand(node);
+        break;
+      case 'w':
+      case 'W':
+        toggleWatch(node);
+        break;
+      case 'Delete':
+      case 'Backspace': {
+        e.preventDefault();
+        const fallback = findNodeInDirection(node, nodes, edges, 'up') ?? nodes.find(n => n.id !== node.id && n.isInitial);
+        deleteNode(node);
+        setAnnouncement(`Deleted ${node.label}`);
+        setFocusedNodeId(fallback?.id ?? null);
+        if (!fallback) canvasRef.current?.focus();
+        break;
+      }
+      case 'Home': {
+        e.preventDefault();
+        const root = nodes.find(n => n.isInitial) ?? nodes[0];
+        if (root) focusNode(root);
+        break;
+      }
+      case 'Escape':
+        if (linkSourceId) {
+          setLinkSourceId(null);
+          break;
+        }
+        setFocusedNodeId(null);
+        canvasRef.current?.focus();
+        break;
+    }
+  };
+
+  // Canvas-level keys: pan with arrows (Shift+arrows while a node has focus), zoom with +/-, reset with 0
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    const direction = ARROW_DIRECTIONS[e.key];
+    const centerX = window.innerWidth / 2;
+    const centerY = window.innerHeight / 2;
+
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z' || e.key === 'y')) {
+      e.preventDefault();
+      if (e.key === 'y' || e.shiftKey) redo(); else undo();
+      return;
+    }
+    if (e.key === 'Escape' && linkSourceId) {
+      setLinkSourceId(null);
+      return;
+    }
+    if (e.key === 'Escape' && pathTargetId) {
+      setPathTargetId(null);
+      return;
+    }
+    if (e.key === '/' || ((e.ctrlKey || e.metaKey) && e.key === 'f')) {
+      e.preventDefault();
+      setIsFilterOpen(true);
+      return;
+    }
+
+    if (direction && (target === e.currentTarget || e.shiftKey)) {
+      e.preventDefault();
+      const dx = direction === 'left' ? KEYBOARD_PAN_STEP : direction === 'right' ? -KEYBOARD_PAN_STEP : 0;
+      const dy = direction === 'up' ? KEYBOARD_PAN_STEP : direction === 'down' ? -KEYBOARD_PAN_STEP : 0;
+      setViewTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      zoomAt(viewTransform.k * KEYBOARD_ZOOM_FACTOR, centerX, centerY);
+    } else if (e.key === '-' || e.key === '_') {
+      e.preventDefault();
+      zoomAt(viewTransform.k / KEYBOARD_ZOOM_FACTOR, centerX, centerY);
+    } else if (e.key === '0') {
+      setViewTransform({ x: 0, y: 0, k: 1 });
+    } else if (e.key === '.') {
+      fitAll();
+    } else if (e.key === '?') {
+      setIsShortcutsOpen(open => !open);
+    } else if (target === e.currentTarget && (e.key === 'Enter' || e.key === 'Home') && nodes.length > 0) {
+      e.preventDefault();
+      focusNode(nodes.find(n => n.isInitial) ?? nodes[0]);
+    }
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
   };
 
   const handleNodeMiddleClick = (node: TrendNode) => {
-    window.open(`https://www.google.com/search?q=${encodeURIComponent(node.label)}`, '_blank');
+    openNodeSources(node);
   };
 
+  const handlePickMatch = (node: TrendNode) => {
+    setPathTargetId(node.id);
+    flyTo(node);
+    setAnnouncement(`${node.label}, ${node.isInitial ? 'the root topic' : `level ${node.level}`}`);
+  };
+
+  const unseenAlertCount = watchAlerts.filter(alert => alert.detectedAt > watchlistSeenAt).length;
+  // The keyboard enters the canvas at the focused node, or at the root before anything was focused
+  const tabStopId = useCanvas ? (tabOrder.find(n => n.id === focusedNodeId) ?? tabOrder.find(n => n.isInitial) ?? tabOrder[0])?.id : undefined;
+  // In canvas mode only nodes that need live interaction or CSS animation keep a DOM element
+  const domNodeIds = new Set(useCanvas
+    ? [tabStopId, focusedNodeId, hoveredNodeId, dragNodeRef.current?.id, ...expandingNodeIds, ...expansionErrors.keys()].filter((id): id is string => !!id)
+    : nodes.map(n => n.id));
+  const isMatch = (id: string) => !matchIds || matchIds.has(id);
+  const hoveredEdge = hoveredEdgeId ? edges.find(e => e.id === hoveredEdgeId) : undefined;
+  const hoveredEdgeSource = hoveredEdge && nodesById.get(edgeEndpointId(hoveredEdge.source));
+  const hoveredEdgeTarget = hoveredEdge && nodesById.get(edgeEndpointId(hoveredEdge.target));
+  const domNodes = (useCanvas ? [...domNodeIds].map(id => nodesById.get(id)).filter((n): n is TrendNode => !!n) : nodes)
+    .filter(n => filter.mode === 'dim' || isMatch(n.id) || expandingNodeIds.has(n.id));
+
   return (
     <div 
-      className="relative w-screen h-screen overflow-hidden bg-white select-none cursor-grab active:cursor-grabbing" 
-      onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onMouseDown={handleMouseDown} onWheel={handleWheel}
+      ref={canvasRef} tabIndex={0} role="application" aria-roledescription="trend map"
+      aria-label="Trend map. Arrow keys pan, plus and minus zoom, Enter focuses the root topic, question mark lists all shortcuts."
+      className="relative w-screen h-screen overflow-hidden bg-white select-none touch-none cursor-grab active:cursor-grabbing outline-none" 
+      onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} onPointerLeave={(e) => { handlePointerUp(e); setHoveredEdgeId(null); }} onPointerDown={handlePointerDown} onWheel={handleWheel}
+      onKeyDown={handleCanvasKeyDown}
     >
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+
       <div className="absolute inset-0 opacity-[0.03] pointer-events-none" 
         style={{ backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', backgroundSize: `${40 * viewTransform.k}px ${40 * viewTransform.k}px`, backgroundPosition: `${viewTransform.x}px ${viewTransform.y}px` }} 
       />
 
-      <div className="absolute inset-0 z-10" style={{ transform: `translate(${viewTransform.x}px, ${viewTransform.y}px) scale(${viewTransform.k})`, transformOrigin: '0 0' }}>
+      {useCanvas && (
+        <GraphCanvas nodes={nodes} edges={edges} transform={viewTransform} hiddenNodeIds={domNodeIds}
+          flowingNodeIds={expandingNodeIds} diff={isDiffVisible ? mapDiff?.byNodeId : undefined}
+          matchIds={matchIds} edgeMatchIds={edgeMatchIds} filterMode={filter.mode} path={highlightedPath}
+        />
+      )}
+
+      <div ref={worldLayerRef} className="absolute inset-0 z-10" style={{ transform: `translate(${viewTransform.x}px, ${viewTransform.y}px) scale(${viewTransform.k})`, transformOrigin: '0 0' }}>
         <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ overflow: 'visible' }}>
           <defs>
             <linearGradient id="edgeGradient" x1="0%" y1="0%" x2="100%" y2="100%">
               <stop offset="0%" stopColor="#00000022" />
               <stop offset="100%" stopColor="#fbbf2444" />
             </linearGradient>
+            {[{ id: 'edgeArrow', fill: EDGE_COLOR, opacity: 0.7 }, { id: 'edgeArrowPath', fill: '#000', opacity: 0.8 }].map(arrow => (
+              <marker key={arrow.id} id={arrow.id} viewBox={`0 0 ${ARROW_LENGTH} ${ARROW_HALF_WIDTH * 2}`} refX={ARROW_LENGTH} refY={ARROW_HALF_WIDTH}
+                markerWidth={ARROW_LENGTH} markerHeight={ARROW_HALF_WIDTH * 2} markerUnits="userSpaceOnUse" orient="auto"
+              >
+                <path d={`M0,0 L${ARROW_LENGTH},${ARROW_HALF_WIDTH} L0,${ARROW_HALF_WIDTH * 2} z`} fill={arrow.fill} fillOpacity={arrow.opacity} />
+              </marker>
+            ))}
           </defs>
-          {edges.map(edge => {
-            const sId = typeof edge.source === 'object' ? edge.source.id : edge.source;
-            const tId = typeof edge.target === 'object' ? edge.target.id : edge.target;
-            const s = nodes.find(n => n.id === sId);
-            const t = nodes.find(n => n.id === tId);
+          {!useCanvas && edges.map(edge => {
+            const s = nodesById.get(edgeEndpointId(edge.source));
+            const t = nodesById.get(edgeEndpointId(edge.target));
             if (!s || !t) return null;
+            const matches = !edgeMatchIds || edgeMatchIds.has(edge.id);
+            if (!matches && filter.mode === 'hide') return null;
+            const { x1, y1, x2, y2 } = edgeLine(s, t);
+            if (highlightedPath?.edgeIds.has(edge.id)) {
+              return <line key={edge.id} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#000" strokeWidth={4} strokeOpacity={0.8} markerEnd="url(#edgeArrowPath)" />;
+            }
             const isFlowing = expandingNodeIds.has(s.id) || expandingNodeIds.has(t.id);
             return (
-              <line key={edge.id} x1={s.x} y1={s.y} x2={t.x} y2={t.y} stroke="url(#edgeGradient)" 
-                strokeWidth={isFlowing ? 3 : 1.5} strokeOpacity={isFlowing ? 1 : 0.4} className={isFlowing ? "line-flowing" : ""} 
+              <line key={edge.id} x1={x1} y1={y1} x2={x2} y2={y2} stroke="url(#edgeGradient)" 
+                strokeWidth={isFlowing ? 3 : edgeStrokeWidth(edge)} strokeOpacity={isFlowing ? 1 : 0.4} opacity={isFlowing || matches ? 1 : DIMMED_ALPHA}
+                className={isFlowing ? "line-flowing" : ""} markerEnd={isFlowing ? undefined : 'url(#edgeArrow)'}
+                strokeDasharray={edge.isManual && !isFlowing ? '6 4' : undefined}
               />
             );
           })}
         </svg>
 
-        <div className="absolute inset-0 overflow-visible">
-          {nodes.map(node => (
+        <div className="absolute inset-0 overflow-visible" role="group" aria-label="Trend nodes">
+          {domNodes.map(node => (
             <Node key={node.id} node={node} onClick={() => handleNodeClick(node)} onContextMenu={(e) => handleNodeContextMenu(e, node)} 
-              onMiddleClick={handleNodeMiddleClick} onMouseDown={(e) => handleNodeMouseDown(e, node)} isLoading={expandingNodeIds.has(node.id)} 
+              onMiddleClick={handleNodeMiddleClick} onShowDetails={isReadOnly ? undefined : (n) => setDetailNodeId(n.id)}
+              onRefresh={isReadOnly ? undefined : (n) => expandNode(n, { bypassCache: true })} onTogglePin={isReadOnly ? undefined : togglePin} error={expansionErrors.get(node.id)}
+              diff={isDiffVisible ? mapDiff?.byNodeId.get(node.id) : undefined}
+              isDimmed={!isMatch(node.id)} isOnPath={highlightedPath?.nodeIds.has(node.id)}
+              isFocused={focusedNodeId === node.id} isTabStop={!useCanvas || node.id === tabStopId} onFocus={(n) => setFocusedNodeId(n.id)} onKeyDown={handleNodeKeyDown} onPointerDown={(e) => handleNodePointerDown(e, node)} isLoading={expandingNodeIds.has(node.id)} 
             />
           ))}
         </div>
+
+        {hoveredEdge && hoveredEdgeSource && hoveredEdgeTarget && (
+          <div role="tooltip" className="absolute z-20 pointer-events-none -translate-x-1/2 -translate-y-1/2 glass px-3 py-1 rounded-full shadow-lg border border-black/10 text-[10px] font-bold uppercase tracking-widest whitespace-nowrap"
+            style={{ left: (hoveredEdgeSource.x + hoveredEdgeTarget.x) / 2, top: (hoveredEdgeSource.y + hoveredEdgeTarget.y) / 2 }}
+          >
+            {describeEdge(hoveredEdge)}
+          </div>
+        )}
+      </div>
+
+      <div className="absolute top-6 left-6 z-40 flex items-start gap-3">
+        <button onPointerDown={(e) => e.stopPropagation()} onClick={() => setIsSettingsOpen(true)} title="Settings" aria-label="Settings"
+          className="glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </button>
+        <button onPointerDown={(e) => e.stopPropagation()} onClick={() => setIsShortcutsOpen(open => !open)} title="Keyboard shortcuts (?)" aria-label="Keyboard shortcuts"
+          className="glass w-14 h-14 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5 text-lg font-bold"
+        >
+          ?
+        </button>
+        {!isReadOnly && (
+          <div className="glass h-14 px-2 rounded-full shadow-xl border border-black/5 flex items-center gap-1" onPointerDown={(e) => e.stopPropagation()}>
+            <button onClick={undo} disabled={!undoState.undo} title={undoState.undo ? `Undo ${undoState.undo} (Ctrl+Z)` : 'Nothing to undo'} aria-label="Undo"
+              className="p-2.5 rounded-full hover:bg-black hover:text-white transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-black"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 010 10H9M3 10l4-4m-4 4l4 4" />
+              </svg>
+            </button>
+            <button onClick={redo} disabled={!undoState.redo} title={undoState.redo ? `Redo ${undoState.redo} (Ctrl+Shift+Z)` : 'Nothing to redo'} aria-label="Redo"
+              className="p-2.5 rounded-full hover:bg-black hover:text-white transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-black"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 000 10h4m6-10l-4-4m4 4l-4 4" />
+              </svg>
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="absolute top-6 right-6 z-40">
-        <button onMouseDown={(e) => e.stopPropagation()} onClick={() => setIsHistoryOpen(true)} 
+      <div className="absolute top-6 right-6 z-40 flex items-start gap-3">
+        {nodes.length > 0 && (
+          <FilterBar filter={filter} onChange={setFilter} matches={matchIds ? nodes.filter(n => matchIds.has(n.id)) : null}
+            graphMaxLevel={maxLevel} onPick={handlePickMatch}
+            isOpen={isFilterOpen} onOpenChange={setIsFilterOpen}
+          />
+        )}
+        <ExportMenu disabled={nodes.length === 0} onExport={handleExportGraph} />
+        <ShareButton disabled={nodes.length === 0} onCreateLink={handleCreateShareLink} />
+        {nodes.length > 0 && !isReadOnly && (
+          <button onPointerDown={(e) => e.stopPropagation()} onClick={() => setIsBriefingOpen(true)} title="Briefing" aria-label="Briefing"
+            className="glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
+            </svg>
+          </button>
+        )}
+        <button onPointerDown={(e) => e.stopPropagation()} onClick={() => { setIsWatchlistOpen(true); setWatchlistSeenAt(Date.now()); }}
+          title="Watchlist" aria-label={`Watchlist${unseenAlertCount ? `, ${unseenAlertCount} new alerts` : ''}`}
+          className="relative glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+          </svg>
+          {unseenAlertCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">{unseenAlertCount}</span>
+          )}
+        </button>
+        <button onPointerDown={(e) => e.stopPropagation()} onClick={() => setIsHistoryOpen(true)} 
           className="glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5"
         >
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -311,20 +1452,128 @@ const App: React.FC = () => {
         </button>
       </div>
 
-      <HistoryPanel history={history} isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onHistoryClick={handleHistoryClick} currentHistoryId={currentHistoryId} />
+      {mapDiff && previousVersion && (
+        <DiffPanel diff={mapDiff} previous={previousVersion} isVisible={isDiffVisible} onToggle={() => setIsDiffVisible(v => !v)} />
+      )}
 
-      <div className={`fixed left-1/2 -translate-x-1/2 transition-all duration-700 ease-in-out z-50 ${isStarted ? 'bottom-10' : 'top-1/2 -translate-y-1/2'}`}>
-        <form onSubmit={handleInitialInput} onMouseDown={(e) => e.stopPropagation()} className="relative group">
-          <input type="text" value={inputValue} onChange={(e) => setInputValue(e.target.value)} 
-            placeholder={nodes.length > 0 ? (nodes.some(n=>n.isSelected) ? "Connect news..." : "Explore new trend...") : "Search breaking news..."} 
-            className="w-[480px] h-16 px-10 rounded-full glass border-2 border-black/10 focus:border-yellow-400 outline-none text-lg shadow-2xl transition-all font-medium text-black" 
+      <div className="fixed bottom-10 right-6 z-40 flex flex-col items-end gap-3">
+        {autoExpand && (
+          <AutoExpandStatus rootLabel={autoExpand.rootLabel} progress={autoExpand.progress}
+            onPause={() => autoExpandRunRef.current?.pause()} onResume={() => autoExpandRunRef.current?.resume()}
+            onCancel={() => autoExpandRunRef.current?.cancel()} onDismiss={() => setAutoExpand(null)}
           />
-          <button type="submit" disabled={isInitialSearching} className={`absolute right-2 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full flex items-center justify-center transition-all ${isInitialSearching ? 'bg-gray-100' : 'bg-black text-yellow-400 hover:scale-110 shadow-lg'}`}>
-            {isInitialSearching ? <div className="animate-spin rounded-full h-5 w-5 border-2 border-black/20 border-t-black" /> : <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" /></svg>}
-          </button>
-        </form>
+        )}
+        {nodes.length > 0 && (
+          <Minimap nodes={nodes} edges={edges} transform={viewTransform} onNavigate={centerViewOn} onFitAll={fitAll} onCenterRoot={centerOnRoot} />
+        )}
+        {nodes.length > 0 && <LayoutSwitcher mode={layoutMode} onChange={setLayoutMode} />}
       </div>
 
+      {nodes.length > 0 && <Legend nodes={nodes} edges={edges} filter={filter} onChange={setFilter} isOpen={isLegendOpen} onOpenChange={setIsLegendOpen} />}
+
+      {highlightedPath && pathTargetId && !linkSourceId && (
+        <div onPointerDown={(e) => e.stopPropagation()} className="fixed top-24 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-xl border border-black/5 px-5 py-2 flex items-center gap-3 text-xs font-semibold">
+          <span>Path to “{nodesById.get(pathTargetId)?.label}”: {highlightedPath.nodeIds.size - 1} steps from the root</span>
+          <button onClick={() => setPathTargetId(null)} className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline">Clear</button>
+        </div>
+      )}
+
+      {linkSourceId && (
+        <div onPointerDown={(e) => e.stopPropagation()} className="fixed top-24 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-xl border border-black/5 px-5 py-2 flex items-center gap-3 text-xs font-semibold">
+          <span>Click a node to link it from “{nodesById.get(linkSourceId)?.label}”</span>
+          <button onClick={() => setLinkSourceId(null)} className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline">Cancel</button>
+        </div>
+      )}
+
+      {(refreshProgress || refreshError) && (
+        <div onPointerDown={(e) => e.stopPropagation()} className="fixed top-6 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-xl border border-black/5 px-5 py-2 flex items-center gap-3 text-xs font-semibold">
+          {refreshProgress ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-black/20 border-t-black" />
+              <span>Refreshing map… {refreshProgress.done}/{refreshProgress.total}</span>
+              {refreshProgress.failed > 0 && <span className="text-red-500">{refreshProgress.failed} failed</span>}
+            </>
+          ) : refreshError && (
+            <>
+              <span className="text-red-600">{refreshError.title}: {refreshError.message}</span>
+              <button onClick={() => setRefreshError(null)} className="font-bold">×</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {shareLinkError && (
+        <div onPointerDown={(e) => e.stopPropagation()} className="fixed top-24 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-xl border border-black/5 px-5 py-2 flex items-center gap-3 text-xs font-semibold">
+          <span className="text-red-600">{shareLinkError}</span>
+          <button onClick={() => setShareLinkError(null)} className="font-bold">×</button>
+        </div>
+      )}
+
+      {watchToast && (
+        <div onPointerDown={(e) => e.stopPropagation()} role="alert" className="fixed bottom-32 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-xl border border-red-200 pl-5 pr-2 py-2 flex items-center gap-3 text-xs font-semibold">
+          <span className="px-2 py-0.5 rounded-full bg-red-500 text-white text-[9px] font-bold uppercase tracking-widest">Breaking</span>
+          <span className="max-w-[320px] truncate">{watchToast.keyword}{watchToast.translation && watchToast.translation !== watchToast.keyword ? ` · ${watchToast.translation}` : ''}</span>
+          <button onClick={() => handleShowWatchAlert(watchToast)} className="px-3 py-1 rounded-full bg-black text-yellow-400 text-[10px] font-bold uppercase tracking-widest">Show</button>
+          <button onClick={() => setWatchToast(null)} aria-label="Dismiss alert" className="p-1 font-bold">×</button>
+        </div>
+      )}
+
+      <ShortcutsHelp isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
+
+      <NodeDetailPanel key={detailNodeId ?? 'none'} node={detailNodeId ? nodesById.get(detailNodeId) ?? null : null} onClose={() => setDetailNodeId(null)}
+        onToggleSelect={toggleNodeSelection} onOpenSources={openNodeSources}
+        onTogglePin={togglePin} onAutoExpand={handleAutoExpand}
+        isWatched={!!detailNodeId && !!currentHistoryId && watchlist.some(entry => entry.id === watchlistEntryId(currentHistoryId, detailNodeId))} onToggleWatch={toggleWatch} isAutoExpanding={!!autoExpand && ['running', 'paused'].includes(autoExpand.progress.status)}
+        onEdit={editNode} onDelete={deleteNode} onPrune={pruneSubtree} onAddChild={addChildNode}
+        onStartLink={(n) => setLinkSourceId(n.id)}
+        subtreeSize={detailNodeId && nodesById.has(detailNodeId) ? subtreeOf(nodesById.get(detailNodeId)!, nodes, edges).length : 0}
+      />
+
+      <HistoryPanel history={history} isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onHistoryClick={handleHistoryClick}
+        onExport={handleExportHistory} onImport={handleImportHistory} onDelete={handleDeleteHistory}
+        onRefresh={handleRefreshHistory} refreshingHistoryId={refreshingHistoryId} currentHistoryId={currentHistoryId} 
+      />
+      <BriefingPanel briefings={currentHistoryItem?.briefings ?? []} title={currentHistoryItem?.query ?? 'trendnode'}
+        selectedCount={nodes.filter(n => n.isSelected).length} isOpen={isBriefingOpen} onClose={() => setIsBriefingOpen(false)}
+        onGenerate={handleGenerateBriefing} isGenerating={isGeneratingBriefing} error={briefingError}
+        onDelete={handleDeleteBriefing} onPickNode={(id) => { const node = nodesById.get(id); if (node) handlePickMatch(node); }}
+      />
+      <WatchlistPanel entries={watchlist} alerts={watchAlerts} history={history} intervalMinutes={settings.watchlist.intervalMinutes}
+        checkingIds={checkingWatchIds} isOpen={isWatchlistOpen} onClose={() => setIsWatchlistOpen(false)}
+        onCheckNow={checkWatchEntry} onRemove={(entry) => setWatchlist(w => w.filter(e => e.id !== entry.id))}
+        onShowAlert={handleShowWatchAlert} onClearAlerts={() => setWatchAlerts([])}
+      />
+      <SettingsPanel settings={settings} isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} onChange={handleSettingsChange} onClearCache={clearTrendCache} />
+
+      {sharedMap ? (
+        <div onPointerDown={(e) => e.stopPropagation()} className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 glass rounded-full shadow-2xl border border-black/5 pl-6 pr-2 py-2 flex items-center gap-4">
+          <div className="text-sm">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mr-2">Shared map · read-only</span>
+            <span className="font-semibold text-black">{sharedMap.item.query}</span>
+          </div>
+          <button onClick={handleImportSharedMap} className="px-4 py-2 rounded-full bg-black text-yellow-400 text-[10px] font-bold uppercase tracking-widest hover:scale-105 transition-transform">
+            Import into my history
+          </button>
+          <button onClick={handleCloseSharedMap} title="Close shared map" aria-label="Close shared map" className="p-2 rounded-full hover:bg-black/10 transition-colors">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ) : (
+        <div className={`fixed left-1/2 -translate-x-1/2 transition-all duration-700 ease-in-out z-50 ${isStarted ? 'bottom-10' : 'top-1/2 -translate-y-1/2'}`}>
+          <form onSubmit={handleInitialInput} onPointerDown={(e) => e.stopPropagation()} className="relative group">
+            <input type="text" value={inputValue} onChange={(e) => setInputValue(e.target.value)} 
+              placeholder={nodes.length > 0 ? (nodes.some(n=>n.isSelected) ? "Connect news..." : "Explore new trend...") : "Search breaking news..."} 
+              className="w-[480px] h-16 px-10 rounded-full glass border-2 border-black/10 focus:border-yellow-400 outline-none text-lg shadow-2xl transition-all font-medium text-black" 
+            />
+            <button type="submit" disabled={isInitialSearching} className={`absolute right-2 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full flex items-center justify-center transition-all ${isInitialSearching ? 'bg-gray-100' : 'bg-black text-yellow-400 hover:scale-110 shadow-lg'}`}>
+              {isInitialSearching ? <div className="animate-spin rounded-full h-5 w-5 border-2 border-black/20 border-t-black" /> : <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" /></svg>}
+            </button>
+          </form>
+        </div>
+      )}
+
       {!isStarted && (
         <div className="absolute top-[62%] left-1/2 -translate-x-1/2 text-center pointer-events-none">
           <p className="text-black/60 font-semibold text-xl tracking-tight">TrendNode AI</p>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { AutoExpandProgress } from '../services/autoExpand';
+
+interface AutoExpandStatusProps {
+  rootLabel: string;
+  progress: AutoExpandProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_TEXT: Record<AutoExpandProgress['status'], string> = {
+  running: 'Auto-expanding',
+  paused: 'Paused',
+  done: 'Auto-expand finished',
+  cancelled: 'Auto-expand cancelled',
+};
+
+const AutoExpandStatus: React.FC<AutoExpandStatusProps> = ({ rootLabel, progress, onPause, onResume, onCancel, onDismiss }) => {
+  const { status, done, failed, running, queued, budget } = progress;
+  const isActive = status === 'running' || status === 'paused';
+  const used = done + failed;
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} role="status"
+      className="w-72 glass rounded-2xl shadow-2xl border border-black/5 p-4"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-bold text-black truncate">{STATUS_TEXT[status]}</div>
+          <div className="text-[10px] text-gray-500 truncate">from “{rootLabel}”</div>
+        </div>
+        {!isActive && <button onClick={onDismiss} aria-label="Dismiss" className="font-bold text-black">×</button>}
+      </div>
+
+      <div className="mt-3 h-1.5 rounded-full bg-black/5 overflow-hidden">
+        <div className={`h-full rounded-full transition-all ${status === 'paused' ? 'bg-gray-400' : 'bg-yellow-400'} ${status === 'running' ? 'animate-pulse' : ''}`}
+          style={{ width: `${Math.min(100, (used / Math.max(1, Math.min(budget, used + running + queued))) * 100)}%` }}
+        />
+      </div>
+
+      <div className="mt-2 text-[10px] text-gray-600 flex flex-wrap gap-x-3">
+        <span>{done} expanded</span>
+        {failed > 0 && <span className="text-red-500 font-bold">{failed} failed</span>}
+        {isActive && <span>{running} in flight · {queued} queued</span>}
+        <span>{used}/{budget} calls</span>
+      </div>
+
+      {isActive && (
+        <div className="mt-3 flex gap-2">
+          <button onClick={status === 'paused' ? onResume : onPause}
+            className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest bg-black text-yellow-400 hover:scale-105 transition-transform"
+          >
+            {status === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={onCancel}
+            className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoExpandStatus;
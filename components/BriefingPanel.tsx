@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Briefing } from '../types';
+import { TrendFetchError } from '../services/trendErrors';
+import { briefingToMarkdown } from '../services/briefing';
+
+interface BriefingPanelProps {
+  briefings: Briefing[];
+  title: string;
+  selectedCount: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerate: () => void;
+  isGenerating: boolean;
+  error: TrendFetchError | null;
+  onDelete: (briefing: Briefing) => void;
+  onPickNode: (nodeId: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const BriefingPanel: React.FC<BriefingPanelProps> = ({ briefings, title, selectedCount, isOpen, onClose, onGenerate, isGenerating, error, onDelete, onPickNode }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  // The newest briefing is shown unless another one was picked
+  const active = briefings.find(b => b.id === openId) ?? briefings[0];
+
+  const copyMarkdown = async (briefing: Briefing) => {
+    try {
+      await navigator.clipboard.writeText(briefingToMarkdown(briefing, title));
+      setCopiedId(briefing.id);
+      setTimeout(() => setCopiedId(id => id === briefing.id ? null : id), 1500);
+    } catch (err) {
+      console.error("Copy to clipboard failed:", err);
+    }
+  };
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}
+      className={`fixed top-0 right-0 h-full w-96 glass z-50 flex flex-col transform transition-transform duration-300 ease-in-out shadow-2xl
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}
+    >
+      <div className="p-6 pb-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-black">Briefing</h2>
+          <button onClick={onClose} className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <button onClick={onGenerate} disabled={selectedCount === 0 || isGenerating}
+          className="w-full py-3 rounded-xl bg-black text-yellow-400 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:scale-[1.02] transition-transform disabled:opacity-30 disabled:hover:scale-100"
+        >
+          {isGenerating && <div className="animate-spin rounded-full h-4 w-4 border-2 border-yellow-400/30 border-t-yellow-400" />}
+          {isGenerating ? 'Writing briefing…' : selectedCount === 0 ? 'Select nodes to brief' : `Generate from ${selectedCount} selected`}
+        </button>
+        {error && (
+          <div className="mt-3 p-3 rounded-xl bg-red-50 border border-red-200 text-red-600 text-xs">
+            <span className="font-bold">{error.title}:</span> {error.message}
+          </div>
+        )}
+        {briefings.length > 1 && (
+          <select value={active?.id} onChange={(e) => setOpenId(e.target.value)}
+            className="mt-3 w-full px-3 py-2 rounded-xl bg-white/60 border border-black/10 text-xs font-semibold outline-none focus:border-yellow-400"
+          >
+            {briefings.map(b => <option key={b.id} value={b.id}>{formatTime(b.createdAt)} · {b.stories.length} stories</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-6 pb-6">
+        {!active ? (
+          <p className="text-sm text-gray-500 text-center mt-8">Select the stories you care about, then generate a briefing. Briefings are saved with this session.</p>
+        ) : (
+          <article className="space-y-5">
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{formatTime(active.createdAt)}</div>
+              {active.headline && <p className="mt-1 text-base font-bold text-black leading-snug">{active.headline}</p>}
+              <div className="mt-3 flex gap-2">
+                <button onClick={() => copyMarkdown(active)} className="px-3 py-1 rounded-full bg-black/5 hover:bg-black/10 text-[10px] font-bold uppercase tracking-widest text-gray-700">
+                  {copiedId === active.id ? 'Copied' : 'Copy Markdown'}
+                </button>
+                <button onClick={() => onDelete(active)} className="px-3 py-1 rounded-full bg-black/5 hover:bg-red-50 hover:text-red-600 text-[10px] font-bold uppercase tracking-widest text-gray-700">
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Stories</h3>
+              <ul className="space-y-3">
+                {active.stories.map((story, i) => (
+                  <li key={`${story.nodeId ?? ''}-${i}`}>
+                    {story.nodeId ? (
+                      <button onClick={() => onPickNode(story.nodeId!)} className="text-sm font-bold text-black text-left hover:underline decoration-yellow-400">{story.title}</button>
+                    ) : (
+                      <div className="text-sm font-bold text-black">{story.title}</div>
+                    )}
+                    <p className="text-xs text-gray-700 mt-1 leading-relaxed">{story.summary}</p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {active.connections.length > 0 && (
+              <section>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">How they connect</h3>
+                <ul className="space-y-2">
+                  {active.connections.map((connection, i) => (
+                    <li key={i} className="text-xs text-gray-700 leading-relaxed">
+                      {connection.between.length > 0 && <span className="font-bold text-black">{connection.between.join(' ↔ ')}: </span>}
+                      {connection.description}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {active.timeline.length > 0 && (
+              <section>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Timeline</h3>
+                <ol className="border-l-2 border-yellow-400/60 pl-3 space-y-2">
+                  {active.timeline.map((entry, i) => (
+                    <li key={i} className="text-xs text-gray-700">
+                      <span className="font-bold text-black mr-2">{entry.date || 'Undated'}</span>
+                      {entry.event}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+          </article>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BriefingPanel;
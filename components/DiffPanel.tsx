@@ -0,0 +1,51 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+import { MapDiff } from '../services/mapDiff';
+
+interface DiffPanelProps {
+  diff: MapDiff;
+  previous: HistoryItem;
+  isVisible: boolean;
+  onToggle: () => void;
+}
+
+const DiffPanel: React.FC<DiffPanelProps> = ({ diff, previous, isVisible, onToggle }) => {
+  const since = new Date(previous.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}
+      className="fixed bottom-32 left-6 w-72 max-h-[40vh] flex flex-col glass rounded-2xl shadow-2xl border border-black/5 z-40"
+    >
+      <div className="p-4 flex justify-between items-center gap-2">
+        <div>
+          <div className="text-sm font-bold text-black">Changes since {since}</div>
+          <div className="text-[10px] text-gray-500 mt-0.5 flex gap-2">
+            <span className="text-emerald-600 font-bold">+{diff.added} new</span>
+            <span className="text-gray-500 font-bold">−{diff.removed.length} gone</span>
+            <span className="text-amber-600 font-bold">{diff.changed} re-weighted</span>
+          </div>
+        </div>
+        <button onClick={onToggle}
+          className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${isVisible ? 'bg-black text-yellow-400' : 'bg-black/5 text-gray-600 hover:bg-black/10'}`}
+        >
+          {isVisible ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      {isVisible && diff.removed.length > 0 && (
+        <div className="px-4 pb-4 overflow-y-auto custom-scrollbar">
+          <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Disappeared</h3>
+          <ul className="space-y-1">
+            {diff.removed.map(node => (
+              <li key={node.id} className="text-xs text-gray-500 line-through decoration-gray-300 truncate" title={node.translation}>
+                {node.label}
+                {node.weight !== undefined && <span className="ml-1 text-[9px] no-underline">({node.weight})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffPanel;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+
+export type ExportFormat = 'svg' | 'png' | 'graphml' | 'gexf' | 'markdown';
+
+const FORMATS: { id: ExportFormat; label: string; hint: string }[] = [
+  { id: 'svg', label: 'SVG image', hint: 'Vector, for reports' },
+  { id: 'png', label: 'PNG image', hint: '2× resolution' },
+  { id: 'graphml', label: 'GraphML', hint: 'Gephi, yEd, Cytoscape' },
+  { id: 'gexf', label: 'GEXF', hint: 'Gephi with positions' },
+  { id: 'markdown', label: 'Markdown outline', hint: 'Nested by level' },
+];
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative" onPointerDown={(e) => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(open => !open)} disabled={disabled} title="Export graph"
+        className="glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5 disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-56 glass rounded-2xl shadow-2xl border border-black/5 p-2">
+          {FORMATS.map(format => (
+            <button key={format.id} onClick={() => { setIsOpen(false); onExport(format.id); }}
+              className="w-full text-left px-3 py-2 rounded-xl hover:bg-black hover:text-white transition-colors group"
+            >
+              <div className="text-sm font-bold">{format.label}</div>
+              <div className="text-[10px] text-gray-500 group-hover:text-gray-300">{format.hint}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,151 @@
+import React from 'react';
+import { TrendNode } from '../types';
+import { GraphFilter, FilterMode, DEFAULT_FILTER, isFilterActive, toggleFacet } from '../services/graphFilter';
+import { CATEGORY_OPTIONS, ENTITY_TYPE_OPTIONS, SENTIMENT_OPTIONS } from '../services/nodeTaxonomy';
+import { RELATION_OPTIONS } from '../services/edgeRelations';
+
+const MAX_LISTED_MATCHES = 30;
+
+interface FilterBarProps {
+  filter: GraphFilter;
+  onChange: (filter: GraphFilter) => void;
+  matches: TrendNode[] | null; // null while the filter is inactive
+  graphMaxLevel: number;
+  onPick: (node: TrendNode) => void;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+const numberClass = "w-14 px-2 py-1 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-xs";
+
+const FilterBar: React.FC<FilterBarProps> = ({ filter, onChange, matches, graphMaxLevel, onPick, isOpen, onOpenChange }) => {
+  const set = (patch: Partial<GraphFilter>) => onChange({ ...filter, ...patch });
+  const active = isFilterActive(filter);
+  const maxLevel = Math.min(filter.maxLevel, graphMaxLevel);
+  // Facets are picked in the legend; here they are only listed so they can be removed
+  const facets = [
+    ...CATEGORY_OPTIONS.filter(o => filter.categories.includes(o.id))
+      .map(o => ({ key: `c-${o.id}`, label: o.label, remove: () => set({ categories: toggleFacet(filter.categories, o.id) }) })),
+    ...ENTITY_TYPE_OPTIONS.filter(o => filter.entityTypes.includes(o.id))
+      .map(o => ({ key: `e-${o.id}`, label: `${o.icon} ${o.label}`, remove: () => set({ entityTypes: toggleFacet(filter.entityTypes, o.id) }) })),
+    ...SENTIMENT_OPTIONS.filter(o => filter.sentiments.includes(o.id))
+      .map(o => ({ key: `s-${o.id}`, label: `${o.label} sentiment`, remove: () => set({ sentiments: toggleFacet(filter.sentiments, o.id) }) })),
+    ...RELATION_OPTIONS.filter(o => filter.relations.includes(o.id))
+      .map(o => ({ key: `r-${o.id}`, label: `→ ${o.label}`, remove: () => set({ relations: toggleFacet(filter.relations, o.id) }) })),
+  ];
+
+  return (
+    <div className="relative" onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}>
+      <button onClick={() => onOpenChange(!isOpen)} title="Find and filter (/)" aria-label="Find and filter" aria-expanded={isOpen}
+        className={`glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5 relative ${active ? 'ring-2 ring-yellow-400' : ''}`}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        {matches && (
+          <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-yellow-400 text-black text-[9px] font-bold flex items-center justify-center">{matches.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 glass rounded-2xl shadow-2xl border border-black/5 p-4 space-y-3"
+          onKeyDown={(e) => { if (e.key === 'Escape') { e.stopPropagation(); onOpenChange(false); } }}
+        >
+          <input autoFocus type="search" value={filter.text} onChange={(e) => set({ text: e.target.value })}
+            placeholder="Find by keyword or translation" aria-label="Find by keyword or translation"
+            className="w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+          />
+
+          <div className="flex items-center justify-between gap-2 text-xs font-semibold text-black">
+            <span>Weight</span>
+            <span className="flex items-center gap-1">
+              <input type="number" min={1} max={10} value={filter.minWeight} aria-label="Minimum weight" className={numberClass}
+                onChange={(e) => { const minWeight = Math.min(10, Math.max(1, Number(e.target.value) || 1)); set({ minWeight, maxWeight: Math.max(minWeight, filter.maxWeight) }); }}
+              />
+              –
+              <input type="number" min={1} max={10} value={filter.maxWeight} aria-label="Maximum weight" className={numberClass}
+                onChange={(e) => { const maxWeight = Math.min(10, Math.max(1, Number(e.target.value) || 1)); set({ maxWeight, minWeight: Math.min(maxWeight, filter.minWeight) }); }}
+              />
+            </span>
+          </div>
+          <input type="range" min={1} max={10} value={filter.minWeight} aria-label="Minimum weight slider"
+            onChange={(e) => { const minWeight = Number(e.target.value); set({ minWeight, maxWeight: Math.max(minWeight, filter.maxWeight) }); }}
+            className="w-full accent-black"
+          />
+
+          <div className="flex items-center justify-between gap-2 text-xs font-semibold text-black">
+            <span>Level</span>
+            <span className="flex items-center gap-1">
+              <input type="number" min={0} max={graphMaxLevel} value={filter.minLevel} aria-label="Minimum level" className={numberClass}
+                onChange={(e) => set({ minLevel: Math.max(0, Number(e.target.value) || 0) })}
+              />
+              –
+              <input type="number" min={0} max={graphMaxLevel} value={maxLevel} aria-label="Maximum level" className={numberClass}
+                onChange={(e) => {
+                  const value = Math.max(0, Number(e.target.value) || 0);
+                  set({ maxLevel: value >= graphMaxLevel ? Infinity : value });
+                }}
+              />
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs font-semibold text-black">
+              <input type="checkbox" checked={filter.selectedOnly} onChange={(e) => set({ selectedOnly: e.target.checked })} className="accent-black" />
+              Selected only
+            </label>
+            <div className="flex rounded-full bg-black/5 p-0.5" role="radiogroup" aria-label="Non-matching nodes">
+              {(['dim', 'hide'] as FilterMode[]).map(mode => (
+                <button key={mode} role="radio" aria-checked={filter.mode === mode} onClick={() => set({ mode })}
+                  className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${filter.mode === mode ? 'bg-black text-yellow-400' : 'text-gray-600'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {facets.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {facets.map(facet => (
+                <button key={facet.key} onClick={facet.remove} title="Remove this filter"
+                  className="px-2 py-0.5 rounded-full bg-black text-yellow-400 text-[10px] font-bold"
+                >
+                  {facet.label} ×
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-[10px] text-gray-500">Filter by category, entity type or sentiment from the legend.</p>
+          )}
+
+          {matches && (
+            <div className="border-t border-black/5 pt-3">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{matches.length} matching</h3>
+                <button onClick={() => onChange({ ...DEFAULT_FILTER, mode: filter.mode })} className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline">Reset</button>
+              </div>
+              <ul className="max-h-60 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+                {matches.slice(0, MAX_LISTED_MATCHES).map(node => (
+                  <li key={node.id}>
+                    <button onClick={() => onPick(node)} className="w-full text-left px-3 py-1.5 rounded-xl hover:bg-black hover:text-white transition-colors group">
+                      <div className="text-sm font-semibold truncate">{node.label}</div>
+                      <div className="text-[10px] text-gray-500 group-hover:text-gray-300 truncate">
+                        {node.translation}{node.weight !== undefined && ` · weight ${node.weight}`} · level {node.level}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {matches.length > MAX_LISTED_MATCHES && (
+                <p className="text-[10px] text-gray-400 italic mt-1">Showing the first {MAX_LISTED_MATCHES}; narrow the filter to see more.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,51 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { TrendNode, Edge } from '../types';
+import { NodeDiff } from '../services/mapDiff';
+import { drawGraph, ViewTransform } from '../services/graphRender';
+import { FilterMode, GraphPath } from '../services/graphFilter';
+
+interface GraphCanvasProps {
+  nodes: TrendNode[];
+  edges: Edge[];
+  transform: ViewTransform;
+  hiddenNodeIds: Set<string>;
+  flowingNodeIds: Set<string>;
+  diff?: Map<string, NodeDiff>;
+  matchIds: Set<string> | null;
+  edgeMatchIds: Set<string> | null;
+  filterMode: FilterMode;
+  path: GraphPath | null;
+}
+
+// Screen-sized canvas that draws the whole graph; interaction stays on the DOM layer above it
+const GraphCanvas: React.FC<GraphCanvasProps> = ({ nodes, edges, transform, hiddenNodeIds, flowingNodeIds, diff, matchIds, edgeMatchIds, filterMode, path }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const handleResize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // The simulation re-renders on every tick, so drawing once per render keeps the canvas in step
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== size.width * dpr || canvas.height !== size.height * dpr) {
+      canvas.width = size.width * dpr;
+      canvas.height = size.height * dpr;
+    }
+    drawGraph(ctx, nodes, edges, { ...size, transform, hiddenNodeIds, flowingNodeIds, diff, matchIds, edgeMatchIds, filterMode, path, time: performance.now() });
+  });
+
+  return (
+    <canvas ref={canvasRef} aria-hidden="true" className="absolute inset-0 z-10 pointer-events-none"
+      style={{ width: size.width, height: size.height }}
+    />
+  );
+};
+
+export default GraphCanvas;
@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { HistoryItem } from '../types';
 
 interface HistoryPanelProps {
@@ -7,12 +7,32 @@ interface HistoryPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onHistoryClick: (item: HistoryItem) => void;
+  onExport: (item: HistoryItem) => void;
+  onImport: (file: File) => Promise<void>;
+  onDelete: (item: HistoryItem) => void;
+  onRefresh: (item: HistoryItem) => void;
+  refreshingHistoryId: string | null;
   currentHistoryId: string | null;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isOpen, onClose, onHistoryClick, currentHistoryId }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isOpen, onClose, onHistoryClick, onExport, onImport, onDelete, onRefresh, refreshingHistoryId, currentHistoryId }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportError(null);
+      await onImport(file);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
   return (
-    <div 
+    <div
       className={`fixed top-0 right-0 h-full w-80 glass z-50 transform transition-transform duration-300 ease-in-out shadow-2xl
         ${isOpen ? 'translate-x-0' : 'translate-x-full'}
       `}
@@ -20,31 +40,52 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isOpen, onClose, o
       <div className="p-6">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-black">Trend History</h2>
-          <button onClick={onClose} className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button onClick={() => fileInputRef.current?.click()} title="Import session file" className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+            </button>
+            <button onClick={onClose} className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
         </div>
-        
+
+        {importError && (
+          <div className="mb-4 p-3 rounded-xl bg-red-50 border border-red-200 text-red-600 text-xs flex justify-between items-start gap-2">
+            <span>{importError}</span>
+            <button onClick={() => setImportError(null)} className="font-bold">×</button>
+          </div>
+        )}
+
         <div className="space-y-3 overflow-y-auto h-[calc(100vh-120px)] pr-2 custom-scrollbar">
           {history.length === 0 ? (
             <p className="text-gray-400 italic text-center py-10">No search sessions yet</p>
           ) : (
             history.map((item) => (
-              <button 
-                key={item.id} 
+              <div
+                key={item.id}
+                role="button"
+                tabIndex={0}
                 onClick={() => onHistoryClick(item)}
-                className={`w-full text-left p-4 rounded-xl border transition-all duration-200 group
-                  ${currentHistoryId === item.id 
-                    ? 'bg-black text-white border-black shadow-lg' 
+                onKeyDown={(e) => { if (e.key === 'Enter') onHistoryClick(item); }}
+                className={`w-full text-left p-4 rounded-xl border transition-all duration-200 group cursor-pointer
+                  ${currentHistoryId === item.id
+                    ? 'bg-black text-white border-black shadow-lg'
                     : 'bg-white/50 border-white/20 hover:bg-white hover:border-black/10 hover:shadow-md'
                   }
                 `}
               >
                 <div className="flex justify-between items-start">
-                  <div className={`font-bold truncate pr-2 ${currentHistoryId === item.id ? 'text-yellow-400' : 'text-black'}`}>
-                    {item.query}
+                  <div className={`font-bold truncate pr-2 flex items-center gap-1.5 ${currentHistoryId === item.id ? 'text-yellow-400' : 'text-black'}`}>
+                    <span className="truncate">{item.query}</span>
+                    {(item.version ?? 1) > 1 && (
+                      <span className="shrink-0 px-1.5 rounded-full bg-yellow-400 text-black text-[9px] font-bold">v{item.version}</span>
+                    )}
                   </div>
                   <div className={`text-[10px] whitespace-nowrap ${currentHistoryId === item.id ? 'text-gray-400' : 'text-gray-500'}`}>
                     {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -54,11 +95,26 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isOpen, onClose, o
                    <span>{item.nodes.length} Nodes</span>
                    <span className="opacity-30">•</span>
                    <span>{item.edges.length} Edges</span>
+                   {refreshingHistoryId === item.id && (
+                     <>
+                       <span className="opacity-30">•</span>
+                       <span className="text-yellow-500 font-bold animate-pulse">Refreshing…</span>
+                     </>
+                   )}
                 </div>
-                <div className="mt-3 opacity-0 group-hover:opacity-100 transition-opacity flex items-center text-[10px] font-bold uppercase tracking-widest text-yellow-500">
-                  Switch to Canvas →
+                <div className="mt-3 opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap gap-y-2 items-center justify-between text-[10px] font-bold uppercase tracking-widest text-yellow-500">
+                  <span>Switch to Canvas →</span>
+                  <span className="flex items-center gap-3">
+                    <button onClick={(e) => { e.stopPropagation(); onRefresh(item); }} disabled={!!refreshingHistoryId}
+                      title="Re-run every expansion now and save the result as a new version" className="hover:underline disabled:opacity-40"
+                    >
+                      Refresh
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); onExport(item); }} className="hover:underline">Export</button>
+                    <button onClick={(e) => { e.stopPropagation(); onDelete(item); }} className="text-red-400 hover:underline">Delete</button>
+                  </span>
                 </div>
-              </button>
+              </div>
             ))
           )}
         </div>
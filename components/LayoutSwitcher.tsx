@@ -0,0 +1,25 @@
+import React from 'react';
+import { LayoutMode, LAYOUT_OPTIONS } from '../services/layouts';
+
+interface LayoutSwitcherProps {
+  mode: LayoutMode;
+  onChange: (mode: LayoutMode) => void;
+}
+
+const LayoutSwitcher: React.FC<LayoutSwitcherProps> = ({ mode, onChange }) => (
+  <div role="radiogroup" aria-label="Layout" onPointerDown={(e) => e.stopPropagation()}
+    className="glass rounded-full shadow-xl border border-black/5 p-1.5 flex items-center gap-1"
+  >
+    {LAYOUT_OPTIONS.map(option => (
+      <button key={option.id} role="radio" aria-checked={mode === option.id} onClick={() => onChange(option.id)} title={option.hint}
+        className={`px-3 py-2 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors
+          ${mode === option.id ? 'bg-black text-yellow-400' : 'text-gray-600 hover:bg-black/10'}
+        `}
+      >
+        {option.name}
+      </button>
+    ))}
+  </div>
+);
+
+export default LayoutSwitcher;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { TrendNode, Edge } from '../types';
+import { GraphFilter, toggleFacet } from '../services/graphFilter';
+import { CATEGORY_OPTIONS, ENTITY_TYPE_OPTIONS, SENTIMENT_OPTIONS, sentimentBucket } from '../services/nodeTaxonomy';
+import { RELATION_OPTIONS } from '../services/edgeRelations';
+
+interface LegendProps {
+  nodes: TrendNode[];
+  edges: Edge[];
+  filter: GraphFilter;
+  onChange: (filter: GraphFilter) => void;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+const countBy = <I, T>(items: I[], key: (item: I) => T | undefined) => {
+  const counts = new Map<T, number>();
+  items.forEach(item => {
+    const value = key(item);
+    if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return counts;
+};
+
+const itemClass = (isActive: boolean) =>
+  `w-full flex items-center gap-2 px-2 py-1 rounded-lg text-xs text-left transition-colors ${isActive ? 'bg-black text-white' : 'hover:bg-black/5 text-black'}`;
+
+// Only values present in the map are listed; clicking one toggles it as a filter
+const Legend: React.FC<LegendProps> = ({ nodes, edges, filter, onChange, isOpen, onOpenChange }) => {
+  const categories = countBy(nodes, n => n.category);
+  const entityTypes = countBy(nodes, n => n.entityType);
+  const sentiments = countBy(nodes, n => sentimentBucket(n.sentiment));
+  const relations = countBy(edges, e => e.relation);
+  const isEmpty = categories.size === 0 && entityTypes.size === 0 && sentiments.size === 0 && relations.size === 0;
+
+  return (
+    <div className="fixed bottom-10 left-6 z-40 flex flex-col items-start gap-2" onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}>
+      {isOpen && (
+        <div className="w-56 max-h-[50vh] overflow-y-auto custom-scrollbar glass rounded-2xl shadow-2xl border border-black/5 p-3 space-y-3">
+          {isEmpty && <p className="text-xs text-gray-500">No node in this map has a category, entity type, sentiment or relation yet.</p>}
+          {categories.size > 0 && (
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">Category</h3>
+              {CATEGORY_OPTIONS.filter(o => categories.has(o.id)).map(o => (
+                <button key={o.id} onClick={() => onChange({ ...filter, categories: toggleFacet(filter.categories, o.id) })}
+                  aria-pressed={filter.categories.includes(o.id)} className={itemClass(filter.categories.includes(o.id))}
+                >
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: o.color }} />
+                  <span className="flex-1">{o.label}</span>
+                  <span className="text-[10px] opacity-60">{categories.get(o.id)}</span>
+                </button>
+              ))}
+            </section>
+          )}
+          {entityTypes.size > 0 && (
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">About a</h3>
+              {ENTITY_TYPE_OPTIONS.filter(o => entityTypes.has(o.id)).map(o => (
+                <button key={o.id} onClick={() => onChange({ ...filter, entityTypes: toggleFacet(filter.entityTypes, o.id) })}
+                  aria-pressed={filter.entityTypes.includes(o.id)} className={itemClass(filter.entityTypes.includes(o.id))}
+                >
+                  <span className="w-3 text-center shrink-0">{o.icon}</span>
+                  <span className="flex-1">{o.label}</span>
+                  <span className="text-[10px] opacity-60">{entityTypes.get(o.id)}</span>
+                </button>
+              ))}
+            </section>
+          )}
+          {sentiments.size > 0 && (
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">Sentiment</h3>
+              {SENTIMENT_OPTIONS.filter(o => sentiments.has(o.id)).map(o => (
+                <button key={o.id} onClick={() => onChange({ ...filter, sentiments: toggleFacet(filter.sentiments, o.id) })}
+                  aria-pressed={filter.sentiments.includes(o.id)} className={itemClass(filter.sentiments.includes(o.id))}
+                >
+                  <span className="w-3 h-1 rounded-full shrink-0" style={{ backgroundColor: o.color }} />
+                  <span className="flex-1">{o.label}</span>
+                  <span className="text-[10px] opacity-60">{sentiments.get(o.id)}</span>
+                </button>
+              ))}
+            </section>
+          )}
+          {relations.size > 0 && (
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">Relation</h3>
+              {RELATION_OPTIONS.filter(o => relations.has(o.id)).map(o => (
+                <button key={o.id} onClick={() => onChange({ ...filter, relations: toggleFacet(filter.relations, o.id) })}
+                  aria-pressed={filter.relations.includes(o.id)} className={itemClass(filter.relations.includes(o.id))}
+                >
+                  <span className="w-3 text-center shrink-0">→</span>
+                  <span className="flex-1">{o.label}</span>
+                  <span className="text-[10px] opacity-60">{relations.get(o.id)}</span>
+                </button>
+              ))}
+            </section>
+          )}
+        </div>
+      )}
+      <button onClick={() => onOpenChange(!isOpen)} aria-expanded={isOpen}
+        className={`glass px-4 py-2 rounded-full shadow-xl border border-black/5 text-[10px] font-bold uppercase tracking-widest transition-colors ${isOpen ? 'bg-black text-yellow-400' : 'text-black hover:bg-black hover:text-white'}`}
+      >
+        Legend
+      </button>
+    </div>
+  );
+};
+
+export default Legend;
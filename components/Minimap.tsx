@@ -0,0 +1,113 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { TrendNode, Edge } from '../types';
+import { ViewTransform, WorldRect, MinimapProjection, projectMinimap, drawMinimap } from '../services/graphRender';
+
+interface MinimapProps {
+  nodes: TrendNode[];
+  edges: Edge[];
+  transform: ViewTransform;
+  onNavigate: (worldX: number, worldY: number, animate: boolean) => void;
+  onFitAll: () => void;
+  onCenterRoot: () => void;
+}
+
+const WIDTH = 192;
+const HEIGHT = 128;
+const PADDING = 80;
+// The simulation re-renders every tick; the overview only needs a few frames a second
+const FRAME_INTERVAL_MS = 150;
+
+// World area shown: every node plus the current viewport, so the viewport frame never falls off the minimap
+const computeBounds = (nodes: TrendNode[], viewport: WorldRect): WorldRect => {
+  let minX = viewport.x;
+  let minY = viewport.y;
+  let maxX = viewport.x + viewport.width;
+  let maxY = viewport.y + viewport.height;
+  nodes.forEach(n => {
+    minX = Math.min(minX, n.x);
+    minY = Math.min(minY, n.y);
+    maxX = Math.max(maxX, n.x);
+    maxY = Math.max(maxY, n.y);
+  });
+  return { x: minX - PADDING, y: minY - PADDING, width: maxX - minX + PADDING * 2, height: maxY - minY + PADDING * 2 };
+};
+
+const buttonClass = "flex-1 px-2 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-gray-600 hover:bg-black hover:text-white transition-colors";
+
+const Minimap: React.FC<MinimapProps> = ({ nodes, edges, transform, onNavigate, onFitAll, onCenterRoot }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Held while dragging so the map does not rescale under the pointer as the viewport moves
+  const frozenBoundsRef = useRef<WorldRect | null>(null);
+  // What is on the canvas right now; pointer positions are mapped back through it
+  const drawnRef = useRef<{ bounds: WorldRect; projection: MinimapProjection } | null>(null);
+  const lastDrawRef = useRef(0);
+
+  const viewport = {
+    x: -transform.x / transform.k,
+    y: -transform.y / transform.k,
+    width: window.innerWidth / transform.k,
+    height: window.innerHeight / transform.k,
+  };
+
+  // Throttled with a trailing frame: each render replaces the pending draw, so the last state always lands
+  useLayoutEffect(() => {
+    const draw = () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      lastDrawRef.current = performance.now();
+      const bounds = frozenBoundsRef.current ?? computeBounds(nodes, viewport);
+      const projection = projectMinimap(bounds, WIDTH, HEIGHT);
+      drawnRef.current = { bounds, projection };
+      drawMinimap(ctx, nodes, edges, viewport, projection);
+    };
+    const wait = FRAME_INTERVAL_MS - (performance.now() - lastDrawRef.current);
+    if (wait <= 0 || frozenBoundsRef.current) {
+      draw();
+      return;
+    }
+    const timer = setTimeout(draw, wait);
+    return () => clearTimeout(timer);
+  });
+
+  const toWorld = (e: React.PointerEvent) => {
+    const projection = drawnRef.current?.projection;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!projection || !rect) return null;
+    return { x: projection.originX + (e.clientX - rect.left) * projection.unit, y: projection.originY + (e.clientY - rect.top) * projection.unit };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toWorld(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    frozenBoundsRef.current = drawnRef.current!.bounds;
+    onNavigate(point.x, point.y, true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!frozenBoundsRef.current) return;
+    const point = toWorld(e);
+    if (point) onNavigate(point.x, point.y, false);
+  };
+
+  const handlePointerUp = () => {
+    frozenBoundsRef.current = null;
+  };
+
+  const dpr = window.devicePixelRatio || 1;
+
+  return (
+    <div className="glass rounded-2xl shadow-xl border border-black/5 p-1.5" onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}>
+      <canvas ref={canvasRef} width={WIDTH * dpr} height={HEIGHT * dpr} style={{ width: WIDTH, height: HEIGHT }}
+        className="block rounded-xl bg-white/40 cursor-pointer touch-none" role="img" aria-label="Minimap; click or drag to move the view"
+        onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp}
+      />
+      <div className="flex gap-1 mt-1.5">
+        <button onClick={onFitAll} title="Fit all nodes" className={buttonClass}>Fit all</button>
+        <button onClick={onCenterRoot} title="Center on the root topic" className={buttonClass}>Root</button>
+      </div>
+    </div>
+  );
+};
+
+export default Minimap;
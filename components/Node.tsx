@@ -1,31 +1,71 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { TrendNode } from '../types';
+import { TrendFetchError } from '../services/trendErrors';
+import { NodeDiff } from '../services/mapDiff';
+import { getNodeSize, isBreakingNode, hasNewBadge } from '../services/nodeMetrics';
+import { categoryOption, entityTypeOption, sentimentOption, describeTaxonomy } from '../services/nodeTaxonomy';
 
 interface NodeProps {
   node: TrendNode;
   onClick: (e: React.MouseEvent) => void;
   onContextMenu: (e: React.MouseEvent) => void;
   onMiddleClick?: (node: TrendNode) => void;
-  onMouseDown?: (e: React.MouseEvent) => void;
+  onShowDetails?: (node: TrendNode) => void;
+  onRefresh?: (node: TrendNode) => void;
+  onTogglePin?: (node: TrendNode) => void;
+  onPointerDown?: (e: React.PointerEvent) => void;
   isLoading?: boolean;
+  error?: TrendFetchError;
+  diff?: NodeDiff;
+  isFocused?: boolean;
+  isTabStop?: boolean; // Off for canvas-mode nodes other than the one Tab enters the map at
+  isDimmed?: boolean; // Filtered out in 'dim' mode
+  isOnPath?: boolean; // Part of the highlighted path to the root
+  onFocus?: (node: TrendNode) => void;
+  onKeyDown?: (e: React.KeyboardEvent, node: TrendNode) => void;
 }
 
-const Node: React.FC<NodeProps> = ({ node, onClick, onContextMenu, onMiddleClick, onMouseDown, isLoading }) => {
-  const isLarge = node.isInitial || node.isSelected;
-  const weightAdjustment = node.weight ? (node.weight - 5) * 6 : 0;
-  const size = isLarge ? 140 : (115 + weightAdjustment);
-  
+// Spoken summary for screen readers: what the node is plus the state that is otherwise only visual
+const describeNode = (node: TrendNode, isLoading?: boolean, error?: TrendFetchError) => [
+  node.translation && node.translation !== node.label ? `${node.label}, ${node.translation}` : node.label,
+  node.weight !== undefined ? `weight ${node.weight} of 10${isBreakingNode(node) ? ', breaking' : ''}` : null,
+  node.isInitial ? 'root topic' : `level ${node.level}`,
+  describeTaxonomy(node) || null,
+  node.isSelected ? 'selected' : null,
+  node.pinned ? 'pinned' : null,
+  node.sources?.length ? `${node.sources.length} sources` : null,
+  isLoading ? 'expanding, activate again to cancel' : null,
+  error && !isLoading ? `expansion failed: ${error.title}` : null,
+].filter(Boolean).join('. ');
+
+const Node: React.FC<NodeProps> = ({ node, onClick, onContextMenu, onMiddleClick, onShowDetails, onRefresh, onTogglePin, onPointerDown, isLoading, error, diff, isFocused, isTabStop = true, isDimmed, isOnPath, onFocus, onKeyDown }) => {
+  const size = getNodeSize(node);
+  const category = categoryOption(node);
+  const entityType = entityTypeOption(node);
+  const sentiment = sentimentOption(node);
+  const elementRef = useRef<HTMLDivElement>(null);
+
+  // Keyboard navigation moves focus by id; follow it into the DOM
+  useEffect(() => {
+    if (isFocused && document.activeElement !== elementRef.current) {
+      elementRef.current?.focus({ preventScroll: true });
+    }
+  }, [isFocused]);
+
   // Define border and background styles based on state
   let stateStyles = "border border-black/10 hover:border-black/30 bg-white/40";
   if (node.isSelected) {
     stateStyles = "border-2 border-yellow-400 bg-yellow-400/30 shadow-lg shadow-yellow-400/20";
   } else if (node.isInitial) {
     stateStyles = "border-2 border-black bg-white/60 shadow-xl";
-  } else if (node.weight && node.weight >= 8) {
+  } else if (isBreakingNode(node)) {
     // Breaking news highlight
     stateStyles = "border border-red-200 bg-red-50/30 shadow-md shadow-red-100/50";
   }
+  if (error && !isLoading) {
+    stateStyles = "border-2 border-dashed border-red-400 bg-red-50/40 shadow-md shadow-red-200/50";
+  }
 
   const handleAuxClick = (e: React.MouseEvent) => {
     if (e.button === 1) { // Middle click
@@ -36,30 +76,117 @@ const Node: React.FC<NodeProps> = ({ node, onClick, onContextMenu, onMiddleClick
 
   return (
     <div
+      ref={elementRef}
+      role="button"
+      tabIndex={isTabStop ? 0 : -1}
+      aria-label={describeNode(node, isLoading, error)}
+      aria-pressed={node.isSelected}
+      aria-busy={isLoading}
+      data-node-id={node.id}
+      onFocus={() => onFocus?.(node)}
+      onKeyDown={(e) => onKeyDown?.(e, node)}
       style={{
         left: node.x - size / 2,
         top: node.y - size / 2,
         width: size,
         height: size,
       }}
-      onMouseDown={onMouseDown}
+      onPointerDown={onPointerDown}
       onAuxClick={handleAuxClick}
-      className={`absolute rounded-full glass flex flex-col items-center justify-center p-3 cursor-grab active:cursor-grabbing select-none z-30
+      className={`absolute rounded-full glass flex flex-col items-center justify-center p-3 cursor-grab active:cursor-grabbing select-none z-30 group outline-none focus-visible:ring-4 focus-visible:ring-black/50
         ${stateStyles}
+        ${isOnPath ? 'ring-4 ring-black/70' : diff?.status === 'new' ? 'ring-4 ring-emerald-400/60' : ''}
+        ${isDimmed ? 'opacity-[0.15]' : ''}
         ${isLoading ? 'loading-node scale-110 z-50 !border-transparent' : 'hover:scale-105 active:scale-95'}
       `}
       onClick={onClick}
       onContextMenu={onContextMenu}
     >
-      <div className="text-sm font-bold text-black text-center leading-tight break-words overflow-hidden line-clamp-3 w-full px-1">
+      <div aria-hidden="true" className="text-sm font-bold text-black text-center leading-tight break-words overflow-hidden line-clamp-3 w-full px-1">
         {node.label}
       </div>
-      <div className="text-[9px] text-gray-600 text-center mt-1 italic uppercase tracking-tighter leading-none break-words line-clamp-2 w-full px-1 opacity-80">
+      <div aria-hidden="true" className="text-[9px] text-gray-600 text-center mt-1 italic uppercase tracking-tighter leading-none break-words line-clamp-2 w-full px-1 opacity-80">
         {node.translation}
       </div>
-      
-      
-      {node.weight && node.weight >= 9 && !isLarge && (
+      {sentiment && (
+        <div aria-hidden="true" title={`${sentiment.label} sentiment (${node.sentiment})`} className="mt-1.5 h-1 w-8 rounded-full" style={{ backgroundColor: sentiment.color }} />
+      )}
+
+      {onShowDetails && (
+        <button
+          tabIndex={-1}
+          title={node.sources?.length ? `${node.sources.length} sources` : 'Details'}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => { e.stopPropagation(); onShowDetails(node); }}
+          className="absolute -top-1 -left-1 min-w-[20px] h-5 px-1 rounded-full bg-black text-yellow-400 text-[9px] font-bold flex items-center justify-center shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          {node.sources?.length ? node.sources.length : 'i'}
+        </button>
+      )}
+
+      {onTogglePin && (
+        <button
+          tabIndex={-1}
+          title={node.pinned ? 'Pinned — click to release' : 'Pin in place (or Shift-drag)'}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => { e.stopPropagation(); onTogglePin(node); }}
+          className={`absolute -bottom-1 -left-1 w-5 h-5 rounded-full text-[9px] flex items-center justify-center shadow-sm transition-opacity
+            ${node.pinned ? 'bg-black text-yellow-400' : 'bg-white text-black border border-black/10 opacity-0 group-hover:opacity-100'}
+          `}
+        >
+          📌
+        </button>
+      )}
+
+      {error && !isLoading && (
+        <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 w-44 p-2 rounded-xl bg-white/90 border border-red-200 shadow-lg text-center z-50"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="text-[10px] font-bold text-red-600 uppercase tracking-wider">{error.title}</div>
+          <div className="text-[9px] text-gray-600 mt-0.5 leading-snug line-clamp-3" title={error.message}>{error.message}</div>
+          <button tabIndex={-1} onClick={(e) => { e.stopPropagation(); onClick(e); }}
+            className="mt-1.5 px-3 py-0.5 rounded-full bg-black text-yellow-400 text-[9px] font-bold uppercase tracking-widest hover:scale-105 transition-transform"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {node.expansion && onRefresh && !isLoading && !error && (
+        <button
+          tabIndex={-1}
+          title={`${node.expansion.fromCache ? 'Children from cache' : 'Children fetched live'} at ${new Date(node.expansion.fetchedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} — click to refresh`}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => { e.stopPropagation(); onRefresh(node); }}
+          className={`absolute -bottom-2 left-1/2 -translate-x-1/2 h-5 px-2 rounded-full text-[8px] font-bold uppercase tracking-wider flex items-center gap-1 shadow-sm transition-opacity
+            ${node.expansion.fromCache ? 'bg-yellow-400 text-black' : 'bg-black text-yellow-400 opacity-0 group-hover:opacity-100'}
+          `}
+        >
+          {node.expansion.fromCache && <span>Cached</span>}
+          <span className="text-[10px] leading-none">↻</span>
+        </button>
+      )}
+
+      {diff && diff.status !== 'unchanged' && (
+        <div className={`absolute -top-2 left-1/2 -translate-x-1/2 px-1.5 py-0.5 rounded-full text-[8px] font-bold uppercase tracking-wider shadow-sm whitespace-nowrap
+          ${diff.status === 'new' ? 'bg-emerald-500 text-white' : 'bg-amber-400 text-black'}
+        `}>
+          {diff.status === 'new'
+            ? 'Since last'
+            : `${(node.weight ?? 0) > (diff.previousWeight ?? 0) ? '▲' : '▼'} ${diff.previousWeight ?? 0}→${node.weight ?? 0}`}
+        </div>
+      )}
+
+      {(category || entityType) && (
+        <div aria-hidden="true" title={[category?.label, entityType?.label].filter(Boolean).join(' · ')}
+          className="absolute -bottom-1 -right-1 w-6 h-6 rounded-full border-2 border-white text-[11px] flex items-center justify-center shadow-sm"
+          style={{ backgroundColor: category?.color ?? '#ffffff' }}
+        >
+          {entityType?.icon}
+        </div>
+      )}
+
+      {hasNewBadge(node) && (
         <div className="absolute -top-1 -right-1 bg-red-500 text-white text-[8px] font-bold px-1.5 py-0.5 rounded-full shadow-sm animate-pulse">
           NEW
         </div>
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { TrendNode } from '../types';
+import { isBreakingNode } from '../services/nodeMetrics';
+import { categoryOption, entityTypeOption, sentimentOption } from '../services/nodeTaxonomy';
+import { googleSearchUrl, isWebUrl } from '../services/sources';
+
+interface NodeDetailPanelProps {
+  node: TrendNode | null;
+  onClose: () => void;
+  onToggleSelect: (node: TrendNode) => void;
+  onOpenSources: (node: TrendNode) => void;
+  onTogglePin: (node: TrendNode) => void;
+  onAutoExpand: (node: TrendNode) => void;
+  isAutoExpanding: boolean;
+  isWatched: boolean;
+  onToggleWatch: (node: TrendNode) => void;
+  onEdit: (node: TrendNode, patch: Pick<TrendNode, 'label' | 'translation'>) => void;
+  onDelete: (node: TrendNode) => void;
+  onPrune: (node: TrendNode) => void;
+  onStartLink: (node: TrendNode) => void;
+  onAddChild: (parent: TrendNode, label: string, translation: string) => void;
+  subtreeSize: number;
+}
+
+const inputClass = "w-full px-3 py-1.5 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm";
+const actionClass = "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest bg-black/5 text-gray-700 hover:bg-black/10 transition-colors disabled:opacity-40";
+
+const formatPublishedAt = (value?: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose, onToggleSelect, onOpenSources, onTogglePin, onAutoExpand, isAutoExpanding, isWatched, onToggleWatch, onEdit, onDelete, onPrune, onStartLink, onAddChild, subtreeSize }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ label: node?.label ?? '', translation: node?.translation ?? '' });
+  const [childDraft, setChildDraft] = useState({ label: '', translation: '' });
+  if (!node) return null;
+  const sources = (node.sources ?? []).filter(source => isWebUrl(source.url));
+  const category = categoryOption(node);
+  const entityType = entityTypeOption(node);
+  const sentiment = sentimentOption(node);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = draft.label.trim();
+    if (!label) return;
+    onEdit(node, { label, translation: draft.translation.trim() });
+    setIsEditing(false);
+  };
+
+  const handleAddChild = (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = childDraft.label.trim();
+    if (!label) return;
+    onAddChild(node, label, childDraft.translation.trim());
+    setChildDraft({ label: '', translation: '' });
+  };
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}
+      className="fixed top-24 left-6 w-80 max-h-[calc(100vh-220px)] flex flex-col glass rounded-2xl shadow-2xl border border-black/5 z-40"
+    >
+      <div className="p-5 border-b border-black/5">
+        <div className="flex justify-between items-start gap-2">
+          {isEditing ? (
+            <form onSubmit={handleSave} className="min-w-0 flex-1 space-y-2">
+              <input autoFocus value={draft.label} onChange={(e) => setDraft(d => ({ ...d, label: e.target.value }))} aria-label="Label" className={`${inputClass} font-bold`} />
+              <input value={draft.translation} onChange={(e) => setDraft(d => ({ ...d, translation: e.target.value }))} aria-label="Translation" placeholder="Translation" className={inputClass} />
+              <div className="flex gap-2">
+                <button type="submit" className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest bg-black text-yellow-400 hover:scale-105 transition-transform">Save</button>
+                <button type="button" onClick={() => setIsEditing(false)} className={actionClass}>Cancel</button>
+              </div>
+            </form>
+          ) : (
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-black leading-tight break-words">{node.label}</h2>
+              {node.translation && <p className="text-[10px] text-gray-600 mt-1 italic uppercase tracking-tight">{node.translation}</p>}
+            </div>
+          )}
+          <button onClick={onClose} className="text-black hover:bg-black/10 p-1.5 rounded-full transition-colors shrink-0">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase tracking-widest">
+          {node.weight !== undefined && (
+            <span className={`px-2 py-0.5 rounded-full ${isBreakingNode(node) ? 'bg-red-500 text-white' : 'bg-black/5 text-gray-600'}`}>Weight {node.weight}</span>
+          )}
+          <span className="px-2 py-0.5 rounded-full bg-black/5 text-gray-600">Level {node.level}</span>
+          {category && (
+            <span className="px-2 py-0.5 rounded-full text-white" style={{ backgroundColor: category.color }}>{category.label}</span>
+          )}
+          {entityType && (
+            <span className="px-2 py-0.5 rounded-full bg-black/5 text-gray-600">{entityType.icon} {entityType.label}</span>
+          )}
+          {sentiment && (
+            <span className="px-2 py-0.5 rounded-full bg-black/5 text-gray-600 flex items-center gap-1" title={`Sentiment ${node.sentiment}`}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: sentiment.color }} />
+              {sentiment.label}
+            </span>
+          )}
+        </div>
+        {/* Button equivalents of right- and middle-click for trackpads and keyboards */}
+        <div className="mt-3 flex items-center gap-2">
+          <button onClick={() => onToggleSelect(node)} aria-pressed={node.isSelected}
+            className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${node.isSelected ? 'bg-yellow-400 text-black' : 'bg-black text-yellow-400 hover:scale-105'}`}
+          >
+            {node.isSelected ? 'Deselect' : 'Select'}
+          </button>
+          <button onClick={() => onOpenSources(node)} className={actionClass}>
+            Open sources
+          </button>
+          <button onClick={() => onTogglePin(node)} aria-pressed={!!node.pinned} className={actionClass}>
+            {node.pinned ? 'Unpin' : 'Pin'}
+          </button>
+          <button onClick={() => onToggleWatch(node)} aria-pressed={isWatched} title="Re-check this topic in the background and alert on breaking results" className={actionClass}>
+            {isWatched ? 'Unwatch' : 'Watch'}
+          </button>
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button onClick={() => { setDraft({ label: node.label, translation: node.translation }); setIsEditing(true); }} className={actionClass}>Edit</button>
+          <button onClick={() => onAutoExpand(node)} disabled={isAutoExpanding} title="Expand breadth-first using the auto-expand limits in settings" className={actionClass}>Auto-expand</button>
+          <button onClick={() => onStartLink(node)} title="Then click the node to connect it to" className={actionClass}>Link to…</button>
+          <button onClick={() => onPrune(node)} disabled={subtreeSize === 0} title="Remove every node expanded from this one" className={actionClass}>
+            Prune {subtreeSize > 0 && subtreeSize}
+          </button>
+          <button onClick={() => onDelete(node)} className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100 transition-colors">Delete</button>
+        </div>
+      </div>
+
+      <div className="p-5 overflow-y-auto custom-scrollbar">
+        <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-3">Sources</h3>
+        {sources.length === 0 ? (
+          <p className="text-xs text-gray-400 italic">No sources were returned for this trend.</p>
+        ) : (
+          <ul className="space-y-2">
+            {sources.map(source => (
+              <li key={source.url}>
+                <a href={source.url} target="_blank" rel="noopener noreferrer"
+                  className="block p-3 rounded-xl bg-white/50 border border-white/20 hover:bg-white hover:border-black/10 hover:shadow-md transition-all"
+                >
+                  <div className="text-sm font-semibold text-black leading-snug line-clamp-2">{source.title}</div>
+                  <div className="text-[10px] text-gray-500 mt-1 flex items-center gap-2">
+                    {source.publisher && <span className="truncate">{source.publisher}</span>}
+                    {source.publisher && source.publishedAt && <span className="opacity-30">•</span>}
+                    {source.publishedAt && <span className="whitespace-nowrap">{formatPublishedAt(source.publishedAt)}</span>}
+                  </div>
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+        <a href={googleSearchUrl(node.label)} target="_blank" rel="noopener noreferrer"
+          className="mt-4 inline-block text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline"
+        >
+          Search Google →
+        </a>
+
+        <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mt-6 mb-2">Add related node</h3>
+        <form onSubmit={handleAddChild} className="space-y-2">
+          <input value={childDraft.label} onChange={(e) => setChildDraft(d => ({ ...d, label: e.target.value }))} placeholder="Keyword" aria-label="New node keyword" className={inputClass} />
+          <input value={childDraft.translation} onChange={(e) => setChildDraft(d => ({ ...d, translation: e.target.value }))} placeholder="Translation (blank to translate automatically)" aria-label="New node translation" className={inputClass} />
+          <button type="submit" disabled={!childDraft.label.trim()} className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest bg-black text-yellow-400 hover:scale-105 transition-transform disabled:opacity-40">Add</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NodeDetailPanel;
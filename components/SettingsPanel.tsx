@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { AppSettings, ProviderId, RenderMode } from '../services/settings';
+import { PROVIDER_OPTIONS } from '../services/trendProvider';
+import { RENDER_MODE_OPTIONS, CANVAS_NODE_THRESHOLD } from '../services/graphRender';
+import { requestNotificationPermission } from '../services/watchlist';
+import { LANGUAGE_OPTIONS, TEMPLATE_VARIABLES, DEFAULT_EXPANSION_TEMPLATE, DEFAULT_TRANSLATION_TEMPLATE, templateProblem } from '../services/promptTemplates';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: (settings: AppSettings) => void;
+  onClearCache: () => Promise<void>;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, isOpen, onClose, onChange, onClearCache }) => {
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+  const setProvider = (provider: ProviderId) => onChange({ ...settings, provider });
+  const setMock = (patch: Partial<AppSettings['mock']>) => onChange({ ...settings, mock: { ...settings.mock, ...patch } });
+  const setMatching = (patch: Partial<AppSettings['matching']>) => onChange({ ...settings, matching: { ...settings.matching, ...patch } });
+  const setExpansion = (patch: Partial<AppSettings['expansion']>) => onChange({ ...settings, expansion: { ...settings.expansion, ...patch } });
+  const promptProblem = templateProblem('promptTemplate', settings.expansion.promptTemplate);
+  const translationProblem = templateProblem('translationTemplate', settings.expansion.translationTemplate);
+  const setCache = (patch: Partial<AppSettings['cache']>) => onChange({ ...settings, cache: { ...settings.cache, ...patch } });
+  const setAutoExpand = (patch: Partial<AppSettings['autoExpand']>) => onChange({ ...settings, autoExpand: { ...settings.autoExpand, ...patch } });
+  const setRendering = (patch: Partial<AppSettings['rendering']>) => onChange({ ...settings, rendering: { ...settings.rendering, ...patch } });
+  const setWatchlist = (patch: Partial<AppSettings['watchlist']>) => onChange({ ...settings, watchlist: { ...settings.watchlist, ...patch } });
+
+  // Permission is asked for only when notifications are switched on
+  const handleNotificationsChange = async (enabled: boolean) => {
+    if (!enabled) {
+      setWatchlist({ notifications: false });
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    setNotificationsBlocked(permission !== 'granted');
+    setWatchlist({ notifications: permission === 'granted' });
+  };
+
+  const handleClearCache = async () => {
+    await onClearCache();
+    setCacheCleared(true);
+    setTimeout(() => setCacheCleared(false), 2000);
+  };
+
+  return (
+    <div
+      onPointerDown={(e) => e.stopPropagation()}
+      className={`fixed top-0 left-0 h-full w-80 glass z-50 transform transition-transform duration-300 ease-in-out shadow-2xl
+        ${isOpen ? 'translate-x-0' : '-translate-x-full'}
+      `}
+    >
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-black">Settings</h2>
+          <button onClick={onClose} className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-6 overflow-y-auto h-[calc(100vh-120px)] pr-2 custom-scrollbar">
+          <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-3">Trend Provider</h3>
+            <div className="space-y-2">
+              {PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setProvider(option.id)}
+                  className={`w-full text-left p-3 rounded-xl border transition-all duration-200
+                    ${settings.provider === option.id
+                      ? 'bg-black text-white border-black shadow-lg'
+                      : 'bg-white/50 border-white/20 hover:bg-white hover:border-black/10'
+                    }
+                  `}
+                >
+                  <div className={`font-bold text-sm ${settings.provider === option.id ? 'text-yellow-400' : 'text-black'}`}>{option.name}</div>
+                  <div className={`text-[10px] mt-1 ${settings.provider === option.id ? 'text-gray-300' : 'text-gray-500'}`}>{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {settings.provider === 'gemini' && (
+            <section className="space-y-3">
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Gemini</h3>
+              <p className="text-xs text-gray-600">
+                Requests go through the TrendNode server (<code className="font-mono">npm run server</code>). The API key and model are set there, in <code className="font-mono">.env.local</code>, and never reach the browser.
+              </p>
+            </section>
+          )}
+
+          {settings.provider === 'mock' && (
+            <section className="space-y-3">
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Offline Fixtures</h3>
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Simulated latency: {settings.mock.latencyMs} ms</span>
+                <input type="range" min={0} max={3000} step={100} value={settings.mock.latencyMs}
+                  onChange={(e) => setMock({ latencyMs: Number(e.target.value) })}
+                  className="mt-2 w-full accent-black"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Simulated failure rate: {Math.round(settings.mock.failureRate * 100)}%</span>
+                <input type="range" min={0} max={1} step={0.05} value={settings.mock.failureRate}
+                  onChange={(e) => setMock({ failureRate: Number(e.target.value) })}
+                  className="mt-2 w-full accent-black"
+                />
+              </label>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Expansion</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Keywords in</span>
+                <select value={settings.expansion.primaryLanguage} onChange={(e) => setExpansion({ primaryLanguage: e.target.value })}
+                  className="mt-1 w-full px-2 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+                >
+                  {LANGUAGE_OPTIONS.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Translated to</span>
+                <select value={settings.expansion.secondaryLanguage} onChange={(e) => setExpansion({ secondaryLanguage: e.target.value })}
+                  className="mt-1 w-full px-2 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+                >
+                  {LANGUAGE_OPTIONS.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Min results</span>
+                <input type="number" min={1} max={20} value={settings.expansion.minResults}
+                  onChange={(e) => {
+                    const minResults = Math.min(20, Math.max(1, Number(e.target.value) || 1));
+                    setExpansion({ minResults, maxResults: Math.max(minResults, settings.expansion.maxResults) });
+                  }}
+                  className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-black">Max results</span>
+                <input type="number" min={1} max={20} value={settings.expansion.maxResults}
+                  onChange={(e) => {
+                    const maxResults = Math.min(20, Math.max(1, Number(e.target.value) || 1));
+                    setExpansion({ maxResults, minResults: Math.min(maxResults, settings.expansion.minResults) });
+                  }}
+                  className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span className="text-xs font-semibold text-black">Recency window: last {settings.expansion.recencyHours} hours</span>
+              <input type="range" min={6} max={168} step={6} value={settings.expansion.recencyHours}
+                onChange={(e) => setExpansion({ recencyHours: Number(e.target.value) })}
+                className="mt-2 w-full accent-black"
+              />
+            </label>
+            <label className="block">
+              <span className="flex justify-between items-center text-xs font-semibold text-black">
+                Expansion prompt
+                {settings.expansion.promptTemplate && (
+                  <button onClick={() => setExpansion({ promptTemplate: '' })} className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline">Reset</button>
+                )}
+              </span>
+              <textarea rows={8} value={settings.expansion.promptTemplate || DEFAULT_EXPANSION_TEMPLATE}
+                onChange={(e) => setExpansion({ promptTemplate: e.target.value === DEFAULT_EXPANSION_TEMPLATE ? '' : e.target.value })}
+                className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-[11px] font-mono leading-snug resize-y"
+              />
+              {promptProblem && <span className="block mt-1 text-[10px] text-red-500">{promptProblem} The server will refuse it.</span>}
+            </label>
+            <label className="block">
+              <span className="flex justify-between items-center text-xs font-semibold text-black">
+                Translation prompt
+                {settings.expansion.translationTemplate && (
+                  <button onClick={() => setExpansion({ translationTemplate: '' })} className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline">Reset</button>
+                )}
+              </span>
+              <textarea rows={4} value={settings.expansion.translationTemplate || DEFAULT_TRANSLATION_TEMPLATE}
+                onChange={(e) => setExpansion({ translationTemplate: e.target.value === DEFAULT_TRANSLATION_TEMPLATE ? '' : e.target.value })}
+                className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-[11px] font-mono leading-snug resize-y"
+              />
+              {translationProblem && <span className="block mt-1 text-[10px] text-red-500">{translationProblem} The server will refuse it.</span>}
+            </label>
+            <div className="text-[10px] text-gray-500 space-y-0.5">
+              {TEMPLATE_VARIABLES.map(v => (
+                <div key={v.name}><code className="text-black">{`{{${v.name}}}`}</code> — {v.description}</div>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Auto-expand</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['depth', 'Depth (levels)', 1, 5],
+                ['concurrency', 'Parallel requests', 1, 6],
+                ['budget', 'Call budget', 1, 200],
+                ['minWeight', 'Min. weight to go deeper', 1, 10],
+              ] as const).map(([key, label, min, max]) => (
+                <label key={key} className="block">
+                  <span className="text-xs font-semibold text-black">{label}</span>
+                  <input type="number" min={min} max={max} value={settings.autoExpand[key]}
+                    onChange={(e) => setAutoExpand({ [key]: Math.min(max, Math.max(min, Number(e.target.value) || min)) })}
+                    className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+            <span className="block text-[10px] text-gray-500">
+              Auto-expand walks breadth-first from a node. Nodes that are already expanded are passed through without using the budget.
+            </span>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Watchlist</h3>
+            <label className="block">
+              <span className="text-xs font-semibold text-black">Check watched topics every (minutes)</span>
+              <input type="number" min={1} max={1440} value={settings.watchlist.intervalMinutes}
+                onChange={(e) => setWatchlist({ intervalMinutes: Math.min(1440, Math.max(1, Number(e.target.value) || 1)) })}
+                className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs font-semibold text-black">
+              <input type="checkbox" checked={settings.watchlist.notifications} onChange={(e) => handleNotificationsChange(e.target.checked)} className="accent-black" />
+              Browser notifications for breaking results
+            </label>
+            <span className="block text-[10px] text-gray-500">
+              {notificationsBlocked
+                ? 'Notifications are blocked for this site. Alerts still appear in the app.'
+                : 'Topics are only checked while the app is open. Without notifications, alerts appear in the app.'}
+            </span>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Duplicate Merging</h3>
+            <label className="block">
+              <span className="text-xs font-semibold text-black">Similarity threshold: {Math.round(settings.matching.threshold * 100)}%</span>
+              <input type="range" min={0.5} max={1} step={0.05} value={settings.matching.threshold}
+                onChange={(e) => setMatching({ threshold: Number(e.target.value) })}
+                className="mt-2 w-full accent-black"
+              />
+              <span className="block text-[10px] text-gray-500 mt-1">
+                Results matching an existing node by label or translation always merge. Lower values also merge more loosely worded variants of the same story.
+              </span>
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Response Cache</h3>
+            <label className="flex items-center gap-2 text-xs font-semibold text-black">
+              <input type="checkbox" checked={settings.cache.enabled} onChange={(e) => setCache({ enabled: e.target.checked })} className="accent-black" />
+              Reuse recent expansions
+            </label>
+            <label className="block">
+              <span className="text-xs font-semibold text-black">Keep results for (minutes)</span>
+              <input type="number" min={1} max={10080} value={settings.cache.ttlMinutes} disabled={!settings.cache.enabled}
+                onChange={(e) => setCache({ ttlMinutes: Math.max(1, Number(e.target.value) || 1) })}
+                className="mt-1 w-full px-3 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm disabled:opacity-40"
+              />
+            </label>
+            <button onClick={handleClearCache}
+              className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:underline"
+            >
+              {cacheCleared ? 'Cache cleared ✓' : 'Clear cached results'}
+            </button>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Rendering</h3>
+            <label className="block">
+              <span className="text-xs font-semibold text-black">Draw nodes with</span>
+              <select value={settings.rendering.mode} onChange={(e) => setRendering({ mode: e.target.value as RenderMode })}
+                className="mt-1 w-full px-2 py-2 rounded-lg bg-white/60 border border-black/10 focus:border-yellow-400 outline-none text-sm"
+              >
+                {RENDER_MODE_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+              <span className="block text-[10px] text-gray-500 mt-1">
+                Automatic switches to a single canvas above {CANVAS_NODE_THRESHOLD} nodes. Hovered, focused, loading and failed nodes stay interactive elements either way.
+              </span>
+            </label>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+
+interface ShareButtonProps {
+  disabled?: boolean;
+  onCreateLink: () => Promise<string>;
+}
+
+type ShareState = { status: 'idle' } | { status: 'working' } | { status: 'copied'; url: string } | { status: 'error'; message: string };
+
+const ShareButton: React.FC<ShareButtonProps> = ({ disabled, onCreateLink }) => {
+  const [state, setState] = useState<ShareState>({ status: 'idle' });
+
+  const handleShare = async () => {
+    setState({ status: 'working' });
+    let url: string;
+    try {
+      url = await onCreateLink();
+    } catch (err) {
+      console.error("Creating share link failed:", err);
+      setState({ status: 'error', message: "Could not create a share link in this browser" });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (err) {
+      // Clipboard access can be refused; the link is still shown so it can be copied by hand
+      console.warn("Copy to clipboard failed:", err);
+    }
+    setState({ status: 'copied', url });
+  };
+
+  return (
+    <div className="relative" onPointerDown={(e) => e.stopPropagation()}>
+      <button onClick={handleShare} disabled={disabled || state.status === 'working'} title="Share a read-only link" aria-label="Share"
+        className="glass p-4 rounded-full hover:bg-black hover:text-white transition-all shadow-xl border border-black/5 disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+      </button>
+
+      {(state.status === 'copied' || state.status === 'error') && (
+        <div className="absolute right-0 mt-3 w-72 glass rounded-2xl shadow-2xl border border-black/5 p-4">
+          <div className="flex justify-between items-start gap-2">
+            <div className={`text-xs font-bold ${state.status === 'error' ? 'text-red-600' : 'text-black'}`}>
+              {state.status === 'error' ? state.message : 'Read-only link copied'}
+            </div>
+            <button onClick={() => setState({ status: 'idle' })} className="text-xs font-bold text-gray-500 hover:text-black">×</button>
+          </div>
+          {state.status === 'copied' && (
+            <>
+              <input readOnly value={state.url} onFocus={(e) => e.target.select()}
+                className="mt-2 w-full px-3 py-2 rounded-xl bg-white/60 border border-black/10 text-[10px] font-mono outline-none focus:border-yellow-400"
+              />
+              <p className="mt-2 text-[10px] text-gray-500">
+                The whole map is inside the link ({Math.ceil(state.url.length / 1024)} KB). Nothing is uploaded.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,77 @@
+import React from 'react';
+
+const SHORTCUTS: { group: string; keys: [string, string][] }[] = [
+  {
+    group: 'Focused node',
+    keys: [
+      ['Enter / Space', 'Expand (or retry a failed expansion); again while loading to cancel'],
+      ['S', 'Select / deselect (same as right-click)'],
+      ['O', 'Open sources (same as middle-click)'],
+      ['I', 'Show details'],
+      ['R', 'Refresh children, bypassing the cache'],
+      ['A', 'Auto-expand several levels deep (limits in settings)'],
+      ['W', 'Watch or unwatch the topic'],
+      ['Delete', 'Delete node'],
+      ['P', 'Prune everything expanded from this node'],
+      ['F', 'Pin / unpin in place (or Shift-drag to pin)'],
+      ['L', 'Start a manual link here, then L on another node to finish'],
+      ['Arrow keys', 'Move to the nearest connected node in that direction'],
+      ['Home', 'Jump to the root topic'],
+      ['Esc', 'Cancel linking, or go back to the canvas'],
+    ],
+  },
+  {
+    group: 'Canvas',
+    keys: [
+      ['Tab', 'Move between nodes'],
+      ['Arrow keys', 'Pan (Shift + arrows while a node is focused)'],
+      ['+ / −', 'Zoom in / out'],
+      ['0', 'Reset view'],
+      ['.', 'Fit all nodes in view'],
+      ['/', 'Find and filter nodes'],
+      ['Ctrl + Z', 'Undo'],
+      ['Ctrl + Shift + Z / Ctrl + Y', 'Redo'],
+      ['Esc', 'Cancel linking or clear the highlighted path'],
+      ['?', 'Toggle this help'],
+    ],
+  },
+];
+
+interface ShortcutsHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ isOpen, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div role="dialog" aria-modal="false" aria-label="Keyboard shortcuts" onPointerDown={(e) => e.stopPropagation()}
+      className="fixed top-24 left-1/2 -translate-x-1/2 w-[420px] glass rounded-2xl shadow-2xl border border-black/5 z-50 p-6"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-black">Keyboard Shortcuts</h2>
+        <button onClick={onClose} aria-label="Close shortcuts" className="text-black hover:bg-black/10 p-1.5 rounded-full transition-colors">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {SHORTCUTS.map(section => (
+        <div key={section.group} className="mb-4 last:mb-0">
+          <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">{section.group}</h3>
+          <dl className="space-y-1">
+            {section.keys.map(([key, description]) => (
+              <div key={`${section.group}-${key}`} className="flex items-baseline gap-3 text-xs">
+                <dt className="w-32 shrink-0"><kbd className="px-1.5 py-0.5 rounded bg-black text-yellow-400 font-mono text-[10px]">{key}</kbd></dt>
+                <dd className="text-gray-700">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
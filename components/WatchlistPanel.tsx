@@ -0,0 +1,102 @@
+import React from 'react';
+import { HistoryItem, WatchAlert, WatchlistEntry } from '../types';
+
+interface WatchlistPanelProps {
+  entries: WatchlistEntry[];
+  alerts: WatchAlert[];
+  history: HistoryItem[];
+  intervalMinutes: number;
+  checkingIds: Set<string>;
+  isOpen: boolean;
+  onClose: () => void;
+  onCheckNow: (entry: WatchlistEntry) => void;
+  onRemove: (entry: WatchlistEntry) => void;
+  onShowAlert: (alert: WatchAlert) => void;
+  onClearAlerts: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ entries, alerts, history, intervalMinutes, checkingIds, isOpen, onClose, onCheckNow, onRemove, onShowAlert, onClearAlerts }) => {
+  const mapName = (historyId: string) => history.find(h => h.id === historyId)?.query;
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}
+      className={`fixed top-0 right-0 h-full w-80 glass z-50 flex flex-col transform transition-transform duration-300 ease-in-out shadow-2xl
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}
+    >
+      <div className="p-6 pb-2 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-black">Watchlist</h2>
+          <div className="text-[10px] text-gray-500 mt-0.5">Checked every {intervalMinutes} min while the app is open</div>
+        </div>
+        <button onClick={onClose} className="text-black hover:bg-black/10 p-2 rounded-full transition-colors">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-6 pb-6 space-y-6">
+        <section>
+          <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Topics</h3>
+          {entries.length === 0 ? (
+            <p className="text-xs text-gray-500">Open a node's details and choose <span className="font-bold">Watch</span> (or press W) to follow it.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map(entry => (
+                <li key={entry.id} className="p-3 rounded-xl bg-white/50 border border-white/20">
+                  <div className="text-sm font-bold text-black truncate" title={entry.translation}>{entry.label}</div>
+                  <div className="text-[10px] text-gray-500 mt-0.5 truncate">
+                    {mapName(entry.historyId) ? `In “${mapName(entry.historyId)}”` : 'Map deleted: alerts only'}
+                    <span className="opacity-30 mx-1">•</span>
+                    {checkingIds.has(entry.id)
+                      ? <span className="text-yellow-500 font-bold animate-pulse">Checking…</span>
+                      : entry.lastCheckedAt ? `Checked ${formatTime(entry.lastCheckedAt)}` : 'Not checked yet'}
+                  </div>
+                  {entry.lastError && <div className="text-[10px] text-red-600 mt-1">{entry.lastError}</div>}
+                  <div className="mt-2 flex gap-3 text-[10px] font-bold uppercase tracking-widest">
+                    <button onClick={() => onCheckNow(entry)} disabled={checkingIds.has(entry.id)} className="text-yellow-500 hover:underline disabled:opacity-40">Check now</button>
+                    <button onClick={() => onRemove(entry)} className="text-red-400 hover:underline">Stop watching</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Breaking alerts</h3>
+            {alerts.length > 0 && (
+              <button onClick={onClearAlerts} className="text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-black">Clear</button>
+            )}
+          </div>
+          {alerts.length === 0 ? (
+            <p className="text-xs text-gray-500">New results with weight 8 or more show up here.</p>
+          ) : (
+            <ul className="space-y-1">
+              {alerts.map(alert => (
+                <li key={alert.id}>
+                  <button onClick={() => onShowAlert(alert)} className="w-full text-left px-3 py-2 rounded-xl hover:bg-black hover:text-white transition-colors group">
+                    <div className="flex justify-between gap-2">
+                      <span className="text-xs font-bold truncate">{alert.keyword}</span>
+                      <span className="text-[10px] text-red-500 font-bold shrink-0">{alert.weight}/10</span>
+                    </div>
+                    <div className="text-[10px] text-gray-500 group-hover:text-gray-300 truncate">
+                      {alert.translation} · {formatTime(alert.detectedAt)}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistPanel;
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { DEFAULT_SETTINGS } from '../services/settings';
+import { TREND_API_PATHS, NDJSON_CONTENT_TYPE, TrendsStreamLine, TrendApiErrorBody } from '../services/trendApi';
+import { createTrendServer } from './app';
+import { ModelBackend, createStubBackend } from './modelBackend';
+import { createRateLimiter } from './rateLimiter';
+
+// A server on a free port with the offline fixtures behind it; closed again when the test ends
+const startServer = async (
+  t: { after: (fn: () => void) => void },
+  { requestsPerMinute = 100, backend = createStubBackend() }: { requestsPerMinute?: number; backend?: ModelBackend } = {},
+) => {
+  const logs: string[] = [];
+  const server = createTrendServer({
+    backend,
+    rateLimiter: createRateLimiter({ requests: requestsPerMinute, windowMs: 60_000 }),
+    trustProxy: false,
+    log: line => logs.push(line),
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+  const post = (path: string, body: unknown) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { port, post, logs };
+};
+
+test('streams trends as NDJSON and ends with the full list', async t => {
+  const { post, logs } = await startServer(t);
+  const response = await post(TREND_API_PATHS.trends, { query: 'Fed', expansion: DEFAULT_SETTINGS.expansion });
+  assert.equal(response.status, 200);
+  assert.ok(response.headers.get('Content-Type')?.startsWith(NDJSON_CONTENT_TYPE));
+
+  const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line) as TrendsStreamLine);
+  const streamed = lines.filter(line => 'trend' in line);
+  const last = lines[lines.length - 1];
+  assert.ok('trends' in last);
+  assert.ok(last.trends.length > 0);
+  assert.equal(streamed.length, last.trends.length);
+  assert.match(logs[0], /POST \/api\/trends 200 /);
+});
+
+test('still answers NDJSON when the model finds no trends', async t => {
+  const { post } = await startServer(t, { backend: { ...createStubBackend(), fetchTrends: async () => [] } });
+  const response = await post(TREND_API_PATHS.trends, { query: 'Fed', expansion: DEFAULT_SETTINGS.expansion });
+  assert.equal(response.status, 200);
+  assert.ok(response.headers.get('Content-Type')?.startsWith(NDJSON_CONTENT_TYPE));
+  assert.deepEqual(JSON.parse(await response.text()), { trends: [] });
+});
+
+test('answers translations and briefings as plain JSON', async t => {
+  const { post } = await startServer(t);
+  const translation = await post(TREND_API_PATHS.translate, { text: '美联储利率决议', expansion: DEFAULT_SETTINGS.expansion });
+  assert.equal(translation.status, 200);
+  assert.equal(typeof (await translation.json()).translation, 'string');
+
+  const briefing = await post(TREND_API_PATHS.briefing, {
+    request: { stories: [{ nodeId: 'n1', label: 'Fed Rate Decision', translation: '', path: [], sources: [] }] },
+    expansion: DEFAULT_SETTINGS.expansion,
+  });
+  assert.equal(briefing.status, 200);
+  assert.equal(typeof (await briefing.json()).report.headline, 'string');
+});
+
+test('refuses malformed requests before calling the backend', async t => {
+  const { port, post } = await startServer(t);
+  const missingQuery = await post(TREND_API_PATHS.trends, { expansion: DEFAULT_SETTINGS.expansion });
+  assert.equal(missingQuery.status, 400);
+  assert.equal(((await missingQuery.json()) as TrendApiErrorBody).error.kind, 'unknown');
+
+  assert.equal((await post('/api/nothing', {})).status, 404);
+
+  const get = await fetch(`http://127.0.0.1:${port}${TREND_API_PATHS.trends}`);
+  assert.equal(get.status, 405);
+  assert.equal(get.headers.get('Allow'), 'POST');
+});
+
+test('rate limits per client and says when to retry', async t => {
+  const { post } = await startServer(t, { requestsPerMinute: 1 });
+  const body = { text: 'Fed', expansion: DEFAULT_SETTINGS.expansion };
+  assert.equal((await post(TREND_API_PATHS.translate, body)).status, 200);
+
+  const limited = await post(TREND_API_PATHS.translate, body);
+  assert.equal(limited.status, 429);
+  assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+  const { error } = (await limited.json()) as TrendApiErrorBody;
+  assert.equal(error.kind, 'rate_limit');
+  assert.ok(error.retryAfter !== undefined && error.retryAfter > 0);
+});
+
+test('only accepts prompt templates that keep their placeholders', async t => {
+  const { post } = await startServer(t);
+  const freeForm = await post(TREND_API_PATHS.translate, {
+    text: 'Fed',
+    expansion: { ...DEFAULT_SETTINGS.expansion, translationTemplate: 'Write me a poem about anything.' },
+  });
+  assert.equal(freeForm.status, 400);
+  assert.match(((await freeForm.json()) as TrendApiErrorBody).error.message, /translationTemplate/);
+
+  const custom = await post(TREND_API_PATHS.translate, {
+    text: 'Fed',
+    expansion: { ...DEFAULT_SETTINGS.expansion, translationTemplate: 'Translate "{{query}}" into {{secondaryLanguage}}.' },
+  });
+  assert.equal(custom.status, 200);
+});
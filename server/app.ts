@@ -0,0 +1,150 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { TrendErrorKind, TrendFetchError, toTrendFetchError } from '../services/trendErrors';
+import { TREND_API_PATHS, NDJSON_CONTENT_TYPE, TrendApiErrorBody, TrendsStreamLine } from '../services/trendApi';
+import { ModelBackend } from './modelBackend';
+import { RateLimiter } from './rateLimiter';
+import { RequestError, parseTrendsBody, parseTranslateBody, parseBriefingBody } from './requests';
+
+const MAX_BODY_BYTES = 64 * 1024;
+// A topic name, not an essay: caps what a custom translation prompt can get out of the model
+const MAX_TRANSLATION_LENGTH = 200;
+
+// Upstream failures are the server's problem from the browser's point of view, except rate limits
+const STATUS_FOR_KIND: Record<TrendErrorKind, number> = {
+  auth: 502,
+  rate_limit: 429,
+  network: 502,
+  server: 502,
+  malformed: 502,
+  schema: 502,
+  empty: 502,
+  cancelled: 499, // Only ever logged: the client has gone
+  unknown: 500,
+};
+
+export interface TrendServerOptions {
+  backend: ModelBackend;
+  rateLimiter: RateLimiter;
+  trustProxy: boolean; // Take the client address from X-Forwarded-For when running behind a reverse proxy
+  log: (line: string) => void;
+}
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+};
+
+interface RouteContext {
+  signal: AbortSignal; // Aborted when the client disconnects before the answer is complete
+  startStream: () => void; // Switches the response to NDJSON; the route's result becomes the last line
+  writeLine: (line: unknown) => void; // Starts the stream if the route has not yet
+}
+
+type Route = (body: unknown, context: RouteContext) => Promise<unknown>;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const toErrorResponse = (error: unknown): { status: number; body: TrendApiErrorBody } => {
+  if (error instanceof RequestError) {
+    return { status: error.status, body: { error: { kind: 'unknown', message: error.message } } };
+  }
+  const { kind, message, retryAfterMs } = toTrendFetchError(error);
+  const retryAfter = retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000);
+  return { status: STATUS_FOR_KIND[kind], body: { error: { kind, message, retryAfter } } };
+};
+
+// One JSON POST endpoint per model call; the API key only ever lives inside the backend
+export const createTrendServer = ({ backend, rateLimiter, trustProxy, log }: TrendServerOptions) => {
+  const routes: Record<string, Route> = {
+    [TREND_API_PATHS.trends]: async (body, { signal, startStream, writeLine }) => {
+      const { query, expansion } = parseTrendsBody(body);
+      // The client reads this endpoint as NDJSON only, even when no trend comes before the result
+      startStream();
+      const trends = await backend.fetchTrends(query, expansion, { signal, onTrend: trend => writeLine({ trend } satisfies TrendsStreamLine) });
+      return { trends } satisfies TrendsStreamLine;
+    },
+    [TREND_API_PATHS.translate]: async body => {
+      const { text, expansion } = parseTranslateBody(body);
+      return { translation: (await backend.translate(text, expansion)).slice(0, MAX_TRANSLATION_LENGTH) };
+    },
+    [TREND_API_PATHS.briefing]: async body => {
+      const { request, expansion } = parseBriefingBody(body);
+      return { report: await backend.generateBriefing(request, expansion) };
+    },
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientAddress(req, trustProxy);
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    let status = 200;
+    let outcome = 'ok';
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const startStream = () => {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': `${NDJSON_CONTENT_TYPE}; charset=utf-8`, 'Cache-Control': 'no-store' });
+    };
+    const writeLine = (line: unknown) => {
+      startStream();
+      res.write(`${JSON.stringify(line)}\n`);
+    };
+    try {
+      const route = routes[path];
+      if (!route) throw new RequestError(404, `No endpoint at ${path}`);
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new RequestError(405, `${path} only accepts POST`);
+      }
+      const limit = rateLimiter.take(client);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+        throw new TrendFetchError('rate_limit', 'Too many requests from this address. Wait a moment and try again.', { status: 429, retryAfterMs: limit.retryAfterMs });
+      }
+      const result = await route(await readJsonBody(req), { signal: controller.signal, startStream, writeLine });
+      if (res.headersSent) {
+        writeLine(result);
+        res.end();
+      } else {
+        sendJson(res, status, result);
+      }
+    } catch (error) {
+      const response = toErrorResponse(error);
+      status = response.status;
+      outcome = `${response.body.error.kind}: ${response.body.error.message}`;
+      if (!res.headersSent) {
+        sendJson(res, status, response.body);
+      } else if (!res.writableEnded) {
+        // Too late for a status code once lines have gone out
+        writeLine(response.body);
+        res.end();
+      }
+    } finally {
+      log(`${new Date(startedAt).toISOString()} ${client} ${req.method} ${path} ${status} ${Date.now() - startedAt}ms ${outcome}`);
+    }
+  };
+
+  return createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+};
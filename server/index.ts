@@ -0,0 +1,36 @@
+import { loadEnvFile } from 'node:process';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { createTrendServer } from './app';
+import { ModelBackend, createGeminiBackend, createStubBackend } from './modelBackend';
+import { createRateLimiter } from './rateLimiter';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// Same files the old client build read the key from; variables already set in the shell win
+for (const file of ['.env.local', '.env']) {
+  try {
+    loadEnvFile(file);
+  } catch {
+    // Both files are optional
+  }
+}
+
+const env = process.env;
+const port = Number(env.PORT) || 8787;
+
+const createBackend = (): ModelBackend => {
+  if (env.MODEL_BACKEND === 'stub') return createStubBackend(Number(env.STUB_LATENCY_MS) || 0);
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (!apiKey) {
+    console.error("No Gemini API key: set GEMINI_API_KEY in .env.local, or MODEL_BACKEND=stub to serve offline fixtures.");
+    process.exit(1);
+  }
+  return createGeminiBackend(apiKey, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+};
+
+const backend = createBackend();
+const rateLimiter = createRateLimiter({ requests: Number(env.RATE_LIMIT_PER_MINUTE) || 30, windowMs: RATE_LIMIT_WINDOW_MS });
+setInterval(rateLimiter.prune, RATE_LIMIT_WINDOW_MS).unref();
+
+const server = createTrendServer({ backend, rateLimiter, trustProxy: env.TRUST_PROXY === '1', log: line => console.log(line) });
+server.listen(port, () => console.log(`TrendNode server on http://localhost:${port} using ${backend.name}`));
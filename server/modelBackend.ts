@@ -0,0 +1,54 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import { TrendProvider } from '../services/trendProvider';
+import { fetchNewsTrends, translateText, generateBriefing } from '../services/geminiService';
+import { createMockProvider } from '../services/mockProvider';
+import { TrendFetchError, kindForStatus, toTrendFetchError } from '../services/trendErrors';
+
+// The model calls the server makes on behalf of the browser; throws TrendFetchError like the providers do
+export interface ModelBackend {
+  name: string;
+  fetchTrends: TrendProvider['fetchTrends'];
+  translate: TrendProvider['translate'];
+  generateBriefing: TrendProvider['generateBriefing'];
+}
+
+// SDK errors are classified here so the browser bundle never needs the SDK to understand them
+export const fromGeminiError = (error: unknown): TrendFetchError => {
+  if (error instanceof ApiError) {
+    // Gemini answers invalid keys with 400 INVALID_ARGUMENT rather than 401
+    const kind = error.status === 400 && /api key/i.test(error.message) ? 'auth' : kindForStatus(error.status);
+    return new TrendFetchError(kind, error.message, { status: error.status, cause: error });
+  }
+  return toTrendFetchError(error);
+};
+
+const mapGeminiErrors = <Args extends unknown[], Result>(call: (...args: Args) => Promise<Result>) =>
+  async (...args: Args): Promise<Result> => {
+    try {
+      return await call(...args);
+    } catch (error) {
+      throw fromGeminiError(error);
+    }
+  };
+
+export const createGeminiBackend = (apiKey: string, model: string): ModelBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `Gemini (${model})`,
+    fetchTrends: mapGeminiErrors((query, expansion, stream) => fetchNewsTrends(ai, model, query, expansion, stream)),
+    translate: mapGeminiErrors((text, expansion) => translateText(ai, model, text, expansion)),
+    generateBriefing: mapGeminiErrors((request, expansion) => generateBriefing(ai, model, request, expansion)),
+  };
+};
+
+// Answers from the offline fixtures, for running and exercising the server without a key; latency
+// spreads the results out so streaming can be watched
+export const createStubBackend = (latencyMs = 0): ModelBackend => {
+  const fixtures = createMockProvider({ latencyMs, failureRate: 0 });
+  return {
+    name: 'stub (offline fixtures)',
+    fetchTrends: fixtures.fetchTrends,
+    translate: fixtures.translate,
+    generateBriefing: fixtures.generateBriefing,
+  };
+};
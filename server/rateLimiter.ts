@@ -0,0 +1,43 @@
+export interface RateLimitOptions {
+  requests: number; // Burst size, and how many requests a client gets per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per client: a full bucket allows a burst, then tokens come back evenly over the window
+export const createRateLimiter = ({ requests, windowMs }: RateLimitOptions, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = requests / windowMs;
+  const tokensAt = (bucket: Bucket, time: number) => Math.min(requests, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+
+  const take = (client: string): RateLimitResult => {
+    const time = now();
+    const existing = buckets.get(client);
+    const bucket = { tokens: existing ? tokensAt(existing, time) : requests, updatedAt: time };
+    buckets.set(client, bucket);
+    if (bucket.tokens < 1) return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  // A bucket that has refilled is the same as no bucket, so idle clients cost no memory
+  const prune = () => {
+    const time = now();
+    buckets.forEach((bucket, client) => {
+      if (tokensAt(bucket, time) >= requests) buckets.delete(client);
+    });
+  };
+
+  return { take, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
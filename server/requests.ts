@@ -0,0 +1,95 @@
+import { ExpansionSettings, DEFAULT_SETTINGS } from '../services/settings';
+import { LANGUAGE_OPTIONS, TemplateField, templateProblem } from '../services/promptTemplates';
+import { BriefingRequest, BriefingRequestStory } from '../services/briefing';
+import { TrendsRequestBody, TranslateRequestBody, BriefingRequestBody } from '../services/trendApi';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_RESULTS = 20;
+const MAX_BRIEFING_STORIES = 30;
+
+// A request the server refuses before any model call; status is the HTTP status to answer with
+export class RequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireText = (value: unknown, field: string, maxLength = MAX_QUERY_LENGTH) => {
+  if (typeof value !== 'string' || !value.trim()) throw new RequestError(400, `"${field}" must be a non-empty string`);
+  if (value.length > maxLength) throw new RequestError(400, `"${field}" is longer than ${maxLength} characters`);
+  return value.trim();
+};
+
+const clampInteger = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Custom templates are still prompts sent with the server's key, so they must stay templates for this task
+const parseTemplate = (raw: Record<string, any>, field: TemplateField) => {
+  if (typeof raw[field] !== 'string') return DEFAULT_SETTINGS.expansion[field];
+  const problem = templateProblem(field, raw[field]);
+  if (problem) throw new RequestError(400, `"expansion.${field}" is not accepted: ${problem}`);
+  return raw[field] as string;
+};
+
+// Unknown or mistyped fields fall back to the defaults, so older clients keep working
+const parseExpansion = (value: unknown): ExpansionSettings => {
+  const defaults = DEFAULT_SETTINGS.expansion;
+  const raw = isObject(value) ? value : {};
+  // Only known languages: the name is written into the prompt
+  const language = (field: 'primaryLanguage' | 'secondaryLanguage') =>
+    LANGUAGE_OPTIONS.find(l => l.code === raw[field])?.code ?? defaults[field];
+  const minResults = clampInteger(raw.minResults, 1, MAX_RESULTS, defaults.minResults);
+  return {
+    primaryLanguage: language('primaryLanguage'),
+    secondaryLanguage: language('secondaryLanguage'),
+    minResults,
+    maxResults: clampInteger(raw.maxResults, minResults, MAX_RESULTS, Math.max(minResults, defaults.maxResults)),
+    recencyHours: clampInteger(raw.recencyHours, 1, 24 * 30, defaults.recencyHours),
+    promptTemplate: parseTemplate(raw, 'promptTemplate'),
+    translationTemplate: parseTemplate(raw, 'translationTemplate'),
+  };
+};
+
+const parseStory = (raw: unknown): BriefingRequestStory => {
+  if (!isObject(raw)) throw new RequestError(400, 'Every briefing story must be an object');
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string').slice(0, 10) : [];
+  return {
+    nodeId: requireText(raw.nodeId, 'nodeId'),
+    label: requireText(raw.label, 'label'),
+    translation: typeof raw.translation === 'string' ? raw.translation.slice(0, MAX_QUERY_LENGTH) : '',
+    weight: typeof raw.weight === 'number' ? raw.weight : undefined,
+    path: strings(raw.path),
+    sources: strings(raw.sources),
+  };
+};
+
+const requireObject = (body: unknown) => {
+  if (!isObject(body)) throw new RequestError(400, 'Expected a JSON object');
+  return body;
+};
+
+export const parseTrendsBody = (body: unknown): TrendsRequestBody => {
+  const raw = requireObject(body);
+  return { query: requireText(raw.query, 'query'), expansion: parseExpansion(raw.expansion) };
+};
+
+export const parseTranslateBody = (body: unknown): TranslateRequestBody => {
+  const raw = requireObject(body);
+  return { text: requireText(raw.text, 'text'), expansion: parseExpansion(raw.expansion) };
+};
+
+export const parseBriefingBody = (body: unknown): BriefingRequestBody => {
+  const raw = requireObject(body);
+  const stories = isObject(raw.request) && Array.isArray(raw.request.stories) ? raw.request.stories : null;
+  if (!stories || stories.length === 0) throw new RequestError(400, '"request.stories" must be a non-empty array');
+  if (stories.length > MAX_BRIEFING_STORIES) throw new RequestError(400, `A briefing covers at most ${MAX_BRIEFING_STORIES} stories`);
+  const request: BriefingRequest = { stories: stories.map(parseStory) };
+  return { request, expansion: parseExpansion(raw.expansion) };
+};
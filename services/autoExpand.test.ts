@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrendNode } from '../types';
+import { startAutoExpand, AutoExpandOptions } from './autoExpand';
+import { TrendFetchError, cancelledError } from './trendErrors';
+
+const node = (id: string, level: number, weight = 8): TrendNode => ({ id, label: id, translation: '', x: 0, y: 0, level, isSelected: false, weight });
+const options = (overrides: Partial<AutoExpandOptions> = {}): AutoExpandOptions => ({ depth: 2, concurrency: 2, budget: 20, minWeight: 6, ...overrides });
+
+// Expansions that wait until the test settles them, like slow provider calls
+const createPendingExpansions = () => {
+  const pending = new Map<string, { resolve: (result: TrendNode[] | TrendFetchError | null) => void }>();
+  const expand = (n: TrendNode) => new Promise<TrendNode[] | TrendFetchError | null>(resolve => pending.set(n.id, { resolve }));
+  return { pending, expand };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('expands breadth-first to the depth, skipping light children and spending no budget on expanded nodes', async () => {
+  const tree: Record<string, TrendNode[]> = {
+    root: [node('a', 1, 9), node('light', 1, 3), node('b', 1, 7)],
+    a: [node('a1', 2)],
+    b: [node('b1', 2)],
+  };
+  const order: string[] = [];
+  const run = startAutoExpand(node('root', 0), options(), {
+    expand: async n => { order.push(n.id); return tree[n.id] ?? []; },
+    existingChildren: n => (n.id === 'b' ? tree.b : null),
+    abort: () => {},
+    onProgress: () => {},
+  });
+
+  const progress = await run.finished;
+  assert.deepEqual(order, ['root', 'a']);
+  assert.deepEqual({ status: progress.status, done: progress.done, failed: progress.failed }, { status: 'done', done: 2, failed: 0 });
+});
+
+test('stops at the call budget', async () => {
+  const order: string[] = [];
+  const run = startAutoExpand(node('root', 0), options({ depth: 5, budget: 2, concurrency: 1 }), {
+    expand: async n => { order.push(n.id); return [node(`${n.id}-child`, n.level + 1)]; },
+    existingChildren: () => null,
+    abort: () => {},
+    onProgress: () => {},
+  });
+  assert.equal((await run.finished).done, 2);
+  assert.deepEqual(order, ['root', 'root-child']);
+});
+
+test('cancelling aborts the expansions in flight and does not count them as failures', async () => {
+  const { pending, expand } = createPendingExpansions();
+  const aborted: string[] = [];
+  const run = startAutoExpand(node('root', 0), options(), {
+    expand,
+    existingChildren: () => null,
+    abort: n => {
+      aborted.push(n.id);
+      pending.get(n.id)?.resolve(cancelledError());
+    },
+    onProgress: () => {},
+  });
+
+  await tick();
+  pending.get('root')!.resolve([node('a', 1), node('b', 1), node('c', 1)]);
+  await tick();
+  assert.deepEqual([...pending.keys()], ['root', 'a', 'b']);
+
+  run.cancel();
+  const progress = await run.finished;
+  assert.deepEqual(aborted.sort(), ['a', 'b']);
+  assert.deepEqual(
+    { status: progress.status, done: progress.done, failed: progress.failed, queued: progress.queued },
+    { status: 'cancelled', done: 1, failed: 0, queued: 0 },
+  );
+});
+
+test('real errors still count as failures', async () => {
+  const run = startAutoExpand(node('root', 0), options(), {
+    expand: async () => new TrendFetchError('server', 'Unavailable'),
+    existingChildren: () => null,
+    abort: () => {},
+    onProgress: () => {},
+  });
+  const progress = await run.finished;
+  assert.equal(progress.failed, 1);
+  assert.equal(progress.done, 0);
+});
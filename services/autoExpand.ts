@@ -0,0 +1,147 @@
+import { TrendNode } from '../types';
+import { TrendFetchError, toTrendFetchError } from './trendErrors';
+
+export interface AutoExpandOptions {
+  depth: number; // Levels below the starting node to fill in
+  concurrency: number; // Expansions in flight at once
+  budget: number; // Provider calls the whole run may make
+  minWeight: number; // Children below this weight are not expanded further
+}
+
+export type AutoExpandStatus = 'running' | 'paused' | 'done' | 'cancelled';
+
+export interface AutoExpandProgress {
+  status: AutoExpandStatus;
+  done: number;
+  failed: number;
+  running: number;
+  queued: number;
+  budget: number;
+}
+
+export interface AutoExpandRun {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  finished: Promise<AutoExpandProgress>;
+}
+
+interface AutoExpandCallbacks {
+  // Fetches and adds children; resolves to the node's children, the error the expansion ended with,
+  // or null when it could not start. A 'cancelled' error means it was stopped rather than failed.
+  expand: (node: TrendNode) => Promise<TrendNode[] | TrendFetchError | null>;
+  // Children of a node that was already expanded before the run; null means it still needs a call
+  existingChildren: (node: TrendNode) => TrendNode[] | null;
+  // Stops an expansion started by expand; called for each one still in flight when the run is cancelled
+  abort: (node: TrendNode) => void;
+  onProgress: (progress: AutoExpandProgress) => void;
+}
+
+// Breadth-first expansion from a node. Nodes that were expanded before are walked through without
+// spending budget, so re-running on a partly built map only fills in the gaps.
+export const startAutoExpand = (root: TrendNode, options: AutoExpandOptions, callbacks: AutoExpandCallbacks): AutoExpandRun => {
+  const { expand, existingChildren, abort, onProgress } = callbacks;
+  const queue: { node: TrendNode; depth: number }[] = [];
+  const visited = new Set<string>();
+  const inFlight = new Set<TrendNode>();
+  let status: AutoExpandStatus = 'running';
+  let started = 0;
+  let running = 0;
+  let done = 0;
+  let failed = 0;
+  let settled = false;
+  let resolveFinished: (progress: AutoExpandProgress) => void = () => {};
+  const finished = new Promise<AutoExpandProgress>(resolve => { resolveFinished = resolve; });
+
+  const snapshot = (): AutoExpandProgress => ({ status, done, failed, running, queued: queue.length, budget: options.budget });
+
+  const enqueueChildren = (children: TrendNode[], depth: number) => {
+    if (depth >= options.depth) return;
+    children
+      .filter(child => !visited.has(child.id) && (child.weight ?? 0) >= options.minWeight)
+      .sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0))
+      .forEach(child => {
+        visited.add(child.id);
+        queue.push({ node: child, depth });
+      });
+  };
+
+  const finishIfIdle = () => {
+    if (running > 0 || settled) return;
+    if (status === 'cancelled' || queue.length === 0 || started >= options.budget) {
+      if (status === 'running') status = 'done';
+      settled = true;
+      onProgress(snapshot());
+      resolveFinished(snapshot());
+    }
+  };
+
+  // A cancelled expansion was stopped on purpose, so it is not reported as a failure
+  const countFailure = (error: unknown) => {
+    if (error === null || toTrendFetchError(error).kind !== 'cancelled') failed++;
+  };
+
+  const pump = () => {
+    while (status === 'running' && queue.length > 0 && running < options.concurrency) {
+      const { node, depth } = queue.shift()!;
+      const existing = existingChildren(node);
+      if (existing) {
+        enqueueChildren(existing, depth + 1);
+        continue;
+      }
+      if (started >= options.budget) {
+        queue.length = 0;
+        break;
+      }
+      started++;
+      running++;
+      inFlight.add(node);
+      expand(node)
+        .then(result => {
+          if (Array.isArray(result)) {
+            done++;
+            if (status !== 'cancelled') enqueueChildren(result, depth + 1);
+          } else {
+            countFailure(result);
+          }
+        })
+        .catch(countFailure)
+        .finally(() => {
+          inFlight.delete(node);
+          running--;
+          pump();
+          onProgress(snapshot());
+          finishIfIdle();
+        });
+    }
+    onProgress(snapshot());
+    if (status === 'running') finishIfIdle();
+  };
+
+  visited.add(root.id);
+  queue.push({ node: root, depth: 0 });
+  // Defer the first batch so callers can store the run handle before progress callbacks fire
+  setTimeout(pump, 0);
+
+  return {
+    pause: () => {
+      if (status !== 'running') return;
+      status = 'paused';
+      onProgress(snapshot());
+    },
+    resume: () => {
+      if (status !== 'paused') return;
+      status = 'running';
+      pump();
+    },
+    cancel: () => {
+      if (status === 'done' || status === 'cancelled') return;
+      status = 'cancelled';
+      queue.length = 0;
+      onProgress(snapshot());
+      inFlight.forEach(abort);
+      finishIfIdle();
+    },
+    finished,
+  };
+};
@@ -0,0 +1,120 @@
+import { TrendNode, Edge, Briefing, BriefingReport, BriefingStory, BriefingConnection, BriefingTimelineEntry } from '../types';
+import { findPathToRoot } from './graphFilter';
+import { indexNodes } from './graphUtils';
+import { TrendFetchError } from './trendErrors';
+
+export interface BriefingRequestStory {
+  nodeId: string;
+  label: string;
+  translation: string;
+  weight?: number;
+  path: string[]; // Labels from the root topic down to the node's parent
+  sources: string[]; // Article titles already known for the node
+}
+
+export interface BriefingRequest {
+  stories: BriefingRequestStory[];
+}
+
+const MAX_SOURCES_PER_STORY = 3;
+
+// Selected nodes plus the ancestor chain that explains why each one is on the map
+export const buildBriefingRequest = (selected: TrendNode[], nodes: TrendNode[], edges: Edge[]): BriefingRequest => {
+  const byId = indexNodes(nodes);
+  return {
+    stories: selected.map(node => {
+      const path = findPathToRoot(node.id, nodes, edges);
+      const ancestors = path ? [...path.nodeIds].filter(id => id !== node.id).map(id => byId.get(id)?.label ?? '') : [];
+      return {
+        nodeId: node.id,
+        label: node.label,
+        translation: node.translation,
+        weight: node.weight,
+        path: ancestors.filter(Boolean),
+        sources: (node.sources ?? []).slice(0, MAX_SOURCES_PER_STORY).map(s => s.publisher ? `${s.title} (${s.publisher})` : s.title),
+      };
+    }),
+  };
+};
+
+// Plain-text story list substituted into the briefing prompt
+export const formatBriefingStories = ({ stories }: BriefingRequest) => stories.map((story, i) => [
+  `${i + 1}. [id: ${story.nodeId}] ${story.label}${story.translation && story.translation !== story.label ? ` (${story.translation})` : ''}`,
+  story.path.length > 0 ? `   Path: ${[...story.path, story.label].join(' → ')}` : null,
+  story.weight !== undefined ? `   Recency weight: ${story.weight}/10` : null,
+  ...story.sources.map(source => `   Source: ${source}`),
+].filter(Boolean).join('\n')).join('\n');
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const parseStory = (raw: unknown): BriefingStory | null => {
+  if (!isObject(raw) || !asText(raw.title) || !asText(raw.summary)) return null;
+  return { nodeId: asText(raw.nodeId) || undefined, title: asText(raw.title), summary: asText(raw.summary) };
+};
+
+const parseConnection = (raw: unknown): BriefingConnection | null => {
+  if (!isObject(raw) || !asText(raw.description)) return null;
+  const between = Array.isArray(raw.between) ? raw.between.map(asText).filter(Boolean) : [];
+  return { between, description: asText(raw.description) };
+};
+
+const parseTimelineEntry = (raw: unknown): BriefingTimelineEntry | null => {
+  if (!isObject(raw) || !asText(raw.event)) return null;
+  return { date: asText(raw.date), event: asText(raw.event) };
+};
+
+const parseList = <T>(value: unknown, parse: (raw: unknown) => T | null): T[] =>
+  Array.isArray(value) ? value.map(parse).filter((item): item is T => !!item) : [];
+
+export const validateBriefingReport = (value: unknown): BriefingReport => {
+  if (!isObject(value)) {
+    throw new TrendFetchError('schema', `Expected a briefing object, got ${value === null ? 'null' : typeof value}`);
+  }
+  const stories = parseList(value.stories, parseStory);
+  if (stories.length === 0) {
+    throw new TrendFetchError('schema', "The briefing contains no story summaries");
+  }
+  return {
+    headline: asText(value.headline),
+    stories,
+    connections: parseList(value.connections, parseConnection),
+    timeline: parseList(value.timeline, parseTimelineEntry).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+export const parseBriefingResponse = (text: string): BriefingReport => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new TrendFetchError('malformed', "The provider returned a briefing that is not valid JSON", { cause: error });
+  }
+  return validateBriefingReport(value);
+};
+
+export const createBriefing = (report: BriefingReport, nodeIds: string[]): Briefing => ({
+  ...report,
+  id: Date.now().toString(),
+  createdAt: Date.now(),
+  nodeIds,
+});
+
+export const briefingToMarkdown = (briefing: Briefing, title: string): string => [
+  `# Briefing: ${title}`,
+  '',
+  `_Generated ${new Date(briefing.createdAt).toLocaleString()}_`,
+  '',
+  ...(briefing.headline ? [`> ${briefing.headline}`, ''] : []),
+  '## Stories',
+  '',
+  ...briefing.stories.flatMap(story => [`### ${story.title}`, '', story.summary, '']),
+  ...(briefing.connections.length > 0
+    ? ['## How they connect', '', ...briefing.connections.map(c => `- ${c.between.length ? `**${c.between.join(' ↔ ')}**: ` : ''}${c.description}`), '']
+    : []),
+  ...(briefing.timeline.length > 0
+    ? ['## Timeline', '', ...briefing.timeline.map(entry => `- **${entry.date || 'Undated'}** — ${entry.event}`), '']
+    : []),
+].join('\n');
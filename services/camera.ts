@@ -0,0 +1,47 @@
+import * as d3 from 'd3';
+import { ViewTransform } from './graphRender';
+
+export const CAMERA_TRANSITION_MS = 600;
+
+// Transform that puts the world point at the middle of the screen at zoom k
+export const centeredOn = (x: number, y: number, k: number): ViewTransform => ({
+  x: window.innerWidth / 2 - x * k,
+  y: window.innerHeight / 2 - y * k,
+  k,
+});
+
+// Interpolates pan and zoom together (d3.interpolateZoom keeps the motion smooth when k changes); returns a cancel function
+export const animateCamera = (from: ViewTransform, to: ViewTransform, onFrame: (view: ViewTransform) => void, duration = CAMERA_TRANSITION_MS) => {
+  const width = window.innerWidth;
+  const height = window.innerHeight;
+  // interpolateZoom works on [centerX, centerY, viewport width] in world units
+  const toView = (t: ViewTransform): [number, number, number] => [(width / 2 - t.x) / t.k, (height / 2 - t.y) / t.k, width / t.k];
+  const interpolate = d3.interpolateZoom(toView(from), toView(to));
+  const timer = d3.timer(elapsed => {
+    const progress = Math.min(1, elapsed / duration);
+    const [cx, cy, w] = interpolate(d3.easeCubicInOut(progress));
+    const k = width / w;
+    onFrame({ x: width / 2 - cx * k, y: height / 2 - cy * k, k });
+    if (progress >= 1) timer.stop();
+  });
+  return () => timer.stop();
+};
+
+// Screen margin left around the graph by fitTransform, and how far a node reaches beyond its centre
+const FIT_MARGIN = 48;
+const NODE_EXTENT = 70;
+
+// Transform that frames every node, clamped to the zoom limits (a lone node is shown at maxZoom at most)
+export const fitTransform = (nodes: { x: number; y: number }[], minZoom: number, maxZoom: number): ViewTransform => {
+  const xs = nodes.map(n => n.x);
+  const ys = nodes.map(n => n.y);
+  const minX = Math.min(...xs) - NODE_EXTENT;
+  const maxX = Math.max(...xs) + NODE_EXTENT;
+  const minY = Math.min(...ys) - NODE_EXTENT;
+  const maxY = Math.max(...ys) + NODE_EXTENT;
+  const k = Math.min(
+    (window.innerWidth - FIT_MARGIN * 2) / (maxX - minX),
+    (window.innerHeight - FIT_MARGIN * 2) / (maxY - minY),
+  );
+  return centeredOn((minX + maxX) / 2, (minY + maxY) / 2, Math.min(Math.max(k, minZoom), maxZoom));
+};
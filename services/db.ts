@@ -0,0 +1,49 @@
+const DB_NAME = 'trendnode';
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: 'history',
+  trendCache: 'trendCache',
+  watchlist: 'watchlist',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.history)) {
+          db.createObjectStore(STORES.history, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.trendCache)) {
+          db.createObjectStore(STORES.trendCache, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORES.watchlist)) {
+          db.createObjectStore(STORES.watchlist, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,36 @@
+import { Edge, EdgeRelation } from '../types';
+
+// Labels read from the child to its parent, e.g. "Reaction to" Fed rate decision
+export const RELATION_OPTIONS: { id: EdgeRelation; label: string }[] = [
+  { id: 'reaction_to', label: 'Reaction to' },
+  { id: 'caused_by', label: 'Caused by' },
+  { id: 'same_event', label: 'Same event' },
+  { id: 'follow_up', label: 'Follow-up to' },
+  { id: 'part_of', label: 'Part of' },
+  { id: 'competitor', label: 'Competitor' },
+  { id: 'related', label: 'Related' },
+];
+
+export const relationOption = (edge: Edge) => RELATION_OPTIONS.find(o => o.id === edge.relation);
+
+// Tolerant readers for provider output, like the node taxonomy ones: unknown values are dropped
+export const parseRelation = (value: unknown): EdgeRelation | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return RELATION_OPTIONS.find(o => o.id === normalized)?.id;
+};
+
+export const parseStrength = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const strength = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(strength) ? Math.round(Math.min(1, Math.max(0, strength)) * 100) / 100 : undefined;
+};
+
+// 1 to 3 world units in half steps, so the canvas renderer can batch edges by width
+export const edgeStrokeWidth = (edge: Edge) =>
+  edge.strength === undefined ? 1.5 : 1 + Math.round(edge.strength * 4) / 2;
+
+export const describeEdge = (edge: Edge) => {
+  const relation = edge.isManual ? 'Manual link' : relationOption(edge)?.label ?? 'Related';
+  return edge.strength === undefined ? relation : `${relation} · ${Math.round(edge.strength * 100)}%`;
+};
@@ -1,27 +1,73 @@
+import { GoogleGenAI, GroundingMetadata, Type } from "@google/genai";
+import { TrendKeyword, TrendSource, BriefingReport } from "../types";
+import { ExpansionSettings } from "./settings";
+import { buildExpansionPrompt, buildTranslationPrompt, buildBriefingPrompt, languageName } from "./promptTemplates";
+import { BriefingRequest, formatBriefingStories, parseBriefingResponse } from "./briefing";
+import { CATEGORY_OPTIONS, ENTITY_TYPE_OPTIONS } from "./nodeTaxonomy";
+import { RELATION_OPTIONS } from "./edgeRelations";
+import { throwIfAborted } from "./trendErrors";
+import { parseTrendKeyword, parseTrendResponse } from "./trendValidation";
+import { TrendStreamOptions } from "./trendProvider";
+import { createJsonArrayStream } from "./jsonStream";
 
-import { GoogleGenAI, Type } from "@google/genai";
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+const MAX_SOURCES_PER_TREND = 5;
 
-export interface TrendKeyword {
-  keyword: string;
-  translation: string;
-  weight: number; // Score from 1-10 representing how recent/breaking the news is
-}
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+};
+
+// Grounding chunks are the pages Google Search actually returned; supports tie them to spans of the
+// generated JSON, so a chunk belongs to every trend whose keyword or translation appears in that span.
+const attachGroundingSources = (trends: TrendKeyword[], metadata: GroundingMetadata | undefined): TrendKeyword[] => {
+  const chunks = metadata?.groundingChunks ?? [];
+  const supports = metadata?.groundingSupports ?? [];
+
+  return trends.map(trend => {
+    const grounded: TrendSource[] = [];
+    supports.forEach(support => {
+      const segment = support.segment?.text ?? "";
+      if (!segment.includes(trend.keyword) && !(trend.translation && segment.includes(trend.translation))) return;
+      (support.groundingChunkIndices ?? []).forEach(index => {
+        const web = chunks[index]?.web;
+        if (!web?.uri) return;
+        grounded.push({ title: web.title || web.uri, url: web.uri, publisher: web.domain || web.title });
+      });
+    });
 
-export const fetchNewsTrends = async (centerWord: string): Promise<TrendKeyword[]> => {
+    const seen = new Set<string>();
+    const sources = [...grounded, ...(trend.sources ?? [])]
+      .filter(source => source.url && !seen.has(source.url) && seen.add(source.url))
+      .map(source => ({ ...source, publisher: source.publisher || hostnameOf(source.url) }))
+      .slice(0, MAX_SOURCES_PER_TREND);
+    return { ...trend, sources };
+  });
+};
+
+// Runs on the server (server/), which maps the SDK's errors to TrendFetchError; retries and caching are layered
+// on top in the browser.
+// The answer is streamed, so each trend reaches onTrend as soon as its object in the JSON array is complete.
+export const fetchNewsTrends = async (
+  ai: GoogleGenAI,
+  model: string,
+  centerWord: string,
+  expansion: ExpansionSettings,
+  { onTrend, signal }: TrendStreamOptions = {},
+): Promise<TrendKeyword[]> => {
+  const items = createJsonArrayStream();
+  let text = "";
+  let metadata: GroundingMetadata | undefined;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Search for 7-8 of the MOST RECENT and BREAKING news trend keywords related to "${centerWord}" using Google Search. 
-      Prioritize news that happened in the last 24-48 hours.
-      Return the results as a JSON array of objects. 
-      For each object:
-      - "keyword": The specific news trend keyword in Chinese (e.g., instead of just "AI", use "OpenAI Sora Release").
-      - "translation": The original English term or exact translation.
-      - "weight": An integer from 1 to 10, where 10 is "breaking news in the last hour" and 1 is "a general ongoing topic".
-      Make the keywords highly specific to current events.`,
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: buildExpansionPrompt(centerWord, expansion),
       config: {
+        abortSignal: signal,
         tools: [{ googleSearch: {} }],
         responseMimeType: "application/json",
         responseSchema: {
@@ -29,20 +75,106 @@ export const fetchNewsTrends = async (centerWord: string): Promise<TrendKeyword[
           items: {
             type: Type.OBJECT,
             properties: {
-              keyword: { type: Type.STRING, description: "The keyword in Chinese" },
-              translation: { type: Type.STRING, description: "The keyword in English" },
+              keyword: { type: Type.STRING, description: `The keyword in ${languageName(expansion.primaryLanguage)}` },
+              translation: { type: Type.STRING, description: `The keyword in ${languageName(expansion.secondaryLanguage)}` },
               weight: { type: Type.INTEGER, description: "Recency score 1-10" },
+              category: { type: Type.STRING, enum: CATEGORY_OPTIONS.map(o => o.id) },
+              sentiment: { type: Type.NUMBER, description: "Tone of the coverage from -1 (negative) to 1 (positive)" },
+              entityType: { type: Type.STRING, enum: ENTITY_TYPE_OPTIONS.map(o => o.id), description: "What the keyword is mainly about" },
+              relation: { type: Type.STRING, enum: RELATION_OPTIONS.map(o => o.id), description: "How the keyword relates to the query" },
+              relationStrength: { type: Type.NUMBER, description: "How directly the keyword follows from the query, 0 to 1" },
+              sources: {
+                type: Type.ARRAY,
+                description: "Supporting news articles",
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    title: { type: Type.STRING },
+                    url: { type: Type.STRING },
+                    publisher: { type: Type.STRING },
+                    publishedAt: { type: Type.STRING, description: "ISO 8601 publish time" },
+                  },
+                  required: ["title", "url"],
+                },
+              },
             },
             required: ["keyword", "translation", "weight"],
           },
         },
       },
     });
-
-    const text = response.text || "[]";
-    return JSON.parse(text) as TrendKeyword[];
+    for await (const chunk of stream) {
+      const part = chunk.text ?? "";
+      text += part;
+      // Grounding arrives with the last chunks, after the trends it supports
+      metadata = chunk.candidates?.[0]?.groundingMetadata ?? metadata;
+      items.push(part).forEach(item => {
+        const trend = parseTrendKeyword(item);
+        if (trend) onTrend?.(trend);
+      });
+    }
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return [];
+    throwIfAborted(signal);
+    throw error;
   }
+
+  return attachGroundingSources(text.trim() ? parseTrendResponse(items.end()) : [], metadata);
+};
+
+export const translateText = async (ai: GoogleGenAI, model: string, text: string, expansion: ExpansionSettings): Promise<string> => {
+  const response = await ai.models.generateContent({ model, contents: buildTranslationPrompt(text, expansion) });
+  return (response.text || "").trim().replace(/^["“'「]+|["”'」]+$/g, "") || text;
+};
+
+export const generateBriefing = async (ai: GoogleGenAI, model: string, request: BriefingRequest, expansion: ExpansionSettings): Promise<BriefingReport> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: buildBriefingPrompt(formatBriefingStories(request), expansion),
+    config: {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          headline: { type: Type.STRING },
+          stories: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                nodeId: { type: Type.STRING },
+                title: { type: Type.STRING },
+                summary: { type: Type.STRING },
+              },
+              required: ["title", "summary"],
+            },
+          },
+          connections: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                between: { type: Type.ARRAY, items: { type: Type.STRING } },
+                description: { type: Type.STRING },
+              },
+              required: ["description"],
+            },
+          },
+          timeline: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                date: { type: Type.STRING, description: "YYYY-MM-DD, with time if known" },
+                event: { type: Type.STRING },
+              },
+              required: ["date", "event"],
+            },
+          },
+        },
+        required: ["headline", "stories", "connections", "timeline"],
+      },
+    },
+  });
+  return parseBriefingResponse(response.text || "{}");
 };
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrendNode, Edge } from '../types';
+import {
+  GraphState,
+  addToGraphCommand,
+  removeNodesCommand,
+  editNodeCommand,
+  compositeCommand,
+  createCommandStack,
+  subtreeOf,
+} from './graphCommands';
+
+const node = (id: string, level: number, label = id): TrendNode => ({ id, label, translation: '', x: 0, y: 0, level, isSelected: false });
+const edge = (source: string, target: string): Edge => ({ id: `e-${source}-${target}`, source, target });
+
+// root -> a -> a1, root -> b
+const createGraph = (): GraphState => ({
+  nodes: [node('root', 0), node('a', 1), node('b', 1), node('a1', 2)],
+  edges: [edge('root', 'a'), edge('root', 'b'), edge('a', 'a1')],
+});
+
+const ids = (state: GraphState) => ({ nodes: state.nodes.map(n => n.id), edges: state.edges.map(e => e.id) });
+
+test('a composite command undoes and redoes as one step, in order', () => {
+  const stack = createCommandStack();
+  const initial = createGraph();
+  const a = initial.nodes[1];
+  const pruned = subtreeOf(a, initial.nodes, initial.edges);
+  assert.deepEqual(pruned.map(n => n.id), ['a1']);
+
+  const command = compositeCommand('prune and rename', [
+    removeNodesCommand('prune', pruned.map(n => n.id)),
+    editNodeCommand('rename', 'a', { label: 'Renamed' }),
+    addToGraphCommand('add', [node('c', 2)], [edge('a', 'c')]),
+  ]);
+  const applied = stack.execute(command, initial);
+  assert.deepEqual(ids(applied), { nodes: ['root', 'a', 'b', 'c'], edges: ['e-root-a', 'e-root-b', 'e-a-c'] });
+  assert.equal(a.label, 'Renamed');
+
+  const undone = stack.undo(applied)!;
+  assert.deepEqual(ids(undone), ids(createGraph()));
+  assert.equal(a.label, 'a');
+  assert.equal(undone.nodes[3], initial.nodes[3], 'removed nodes come back as the same objects');
+
+  const redone = stack.redo(undone)!;
+  assert.deepEqual(ids(redone), ids(applied));
+  assert.equal(a.label, 'Renamed');
+  assert.equal(stack.peekUndo(), command);
+  assert.equal(stack.peekRedo(), undefined);
+});
+
+test('a new command clears the redo stack, and the stack keeps only its limit', () => {
+  const stack = createCommandStack(2);
+  let state = createGraph();
+  state = stack.execute(editNodeCommand('first', 'b', { label: 'One' }), state);
+  state = stack.execute(editNodeCommand('second', 'b', { label: 'Two' }), state);
+  state = stack.execute(editNodeCommand('third', 'b', { label: 'Three' }), state);
+
+  state = stack.undo(state)!;
+  assert.equal(stack.peekRedo()?.label, 'third');
+  state = stack.execute(editNodeCommand('fourth', 'b', { label: 'Four' }), state);
+  assert.equal(stack.peekRedo(), undefined);
+
+  state = stack.undo(stack.undo(state)!)!;
+  assert.equal(stack.undo(state), null, 'the oldest step fell off the stack');
+  assert.equal(state.nodes.find(n => n.id === 'b')?.label, 'One');
+});
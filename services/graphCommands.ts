@@ -0,0 +1,147 @@
+import { TrendNode, Edge } from '../types';
+import { edgeEndpointId, buildChildIndex } from './graphUtils';
+
+export interface GraphState {
+  nodes: TrendNode[];
+  edges: Edge[];
+}
+
+// A reversible graph change. Node objects are shared with the d3 simulation, so commands keep
+// their identity: removed nodes are re-inserted as the same objects and edits patch in place.
+export interface GraphCommand {
+  label: string;
+  apply: (state: GraphState) => GraphState;
+  revert: (state: GraphState) => GraphState;
+}
+
+export const MAX_UNDO_STEPS = 100;
+
+const touches = (edge: Edge, ids: Set<string>) => ids.has(edgeEndpointId(edge.source)) || ids.has(edgeEndpointId(edge.target));
+
+export const addToGraphCommand = (label: string, newNodes: TrendNode[], newEdges: Edge[]): GraphCommand => {
+  const nodeIds = new Set(newNodes.map(n => n.id));
+  const edgeIds = new Set(newEdges.map(e => e.id));
+  return {
+    label,
+    apply: ({ nodes, edges }) => ({ nodes: [...nodes, ...newNodes], edges: [...edges, ...newEdges] }),
+    revert: ({ nodes, edges }) => ({ nodes: nodes.filter(n => !nodeIds.has(n.id)), edges: edges.filter(e => !edgeIds.has(e.id)) }),
+  };
+};
+
+// Removes the nodes and every edge touching them; undo restores both at their old positions in the arrays
+export const removeNodesCommand = (label: string, nodeIds: string[]): GraphCommand => {
+  const ids = new Set(nodeIds);
+  let removedNodes: { node: TrendNode; index: number }[] = [];
+  let removedEdges: { edge: Edge; index: number }[] = [];
+  return {
+    label,
+    apply: ({ nodes, edges }) => {
+      removedNodes = nodes.map((node, index) => ({ node, index })).filter(({ node }) => ids.has(node.id));
+      removedEdges = edges.map((edge, index) => ({ edge, index })).filter(({ edge }) => touches(edge, ids));
+      return { nodes: nodes.filter(n => !ids.has(n.id)), edges: edges.filter(e => !touches(e, ids)) };
+    },
+    revert: ({ nodes, edges }) => {
+      const nextNodes = [...nodes];
+      removedNodes.forEach(({ node, index }) => nextNodes.splice(index, 0, node));
+      const nextEdges = [...edges];
+      removedEdges.forEach(({ edge, index }) => nextEdges.splice(index, 0, edge));
+      return { nodes: nextNodes, edges: nextEdges };
+    },
+  };
+};
+
+// Everything reachable by following edges one or more levels deeper, excluding the node itself
+export const subtreeOf = (root: TrendNode, nodes: TrendNode[], edges: Edge[]): TrendNode[] => {
+  const children = buildChildIndex(nodes, edges);
+  const seen = new Set([root.id]);
+  const result: TrendNode[] = [];
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    (children.get(node.id) ?? []).forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      result.push(child);
+      queue.push(child);
+    });
+  }
+  return result;
+};
+
+export const editNodeCommand = (label: string, nodeId: string, patch: Partial<TrendNode>): GraphCommand => {
+  let previous: Partial<TrendNode> = {};
+  const patchNode = (nodes: TrendNode[], values: Partial<TrendNode>) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (node) Object.assign(node, values);
+    return [...nodes];
+  };
+  return {
+    label,
+    apply: (state) => {
+      const node = state.nodes.find(n => n.id === nodeId);
+      previous = node ? Object.fromEntries(Object.keys(patch).map(key => [key, node[key as keyof TrendNode]])) : {};
+      return { ...state, nodes: patchNode(state.nodes, patch) };
+    },
+    revert: (state) => ({ ...state, nodes: patchNode(state.nodes, previous) }),
+  };
+};
+
+// Applies several commands as one undo step, reverting them in reverse order
+export const compositeCommand = (label: string, commands: GraphCommand[]): GraphCommand => ({
+  label,
+  apply: (state) => commands.reduce((s, command) => command.apply(s), state),
+  revert: (state) => commands.reduceRight((s, command) => command.revert(s), state),
+});
+
+export const createManualEdge = (sourceId: string, targetId: string): Edge => ({
+  id: `e-manual-${sourceId}-${targetId}`,
+  source: sourceId,
+  target: targetId,
+  isManual: true,
+});
+
+export const isLinked = (edges: Edge[], a: string, b: string) => edges.some(e => {
+  const s = edgeEndpointId(e.source);
+  const t = edgeEndpointId(e.target);
+  return (s === a && t === b) || (s === b && t === a);
+});
+
+export interface CommandStack {
+  execute: (command: GraphCommand, state: GraphState) => GraphState;
+  undo: (state: GraphState) => GraphState | null;
+  redo: (state: GraphState) => GraphState | null;
+  peekUndo: () => GraphCommand | undefined;
+  peekRedo: () => GraphCommand | undefined;
+  clear: () => void;
+}
+
+export const createCommandStack = (limit = MAX_UNDO_STEPS): CommandStack => {
+  let done: GraphCommand[] = [];
+  let undone: GraphCommand[] = [];
+  return {
+    execute: (command, state) => {
+      const next = command.apply(state);
+      done = [...done, command].slice(-limit);
+      undone = [];
+      return next;
+    },
+    undo: (state) => {
+      const command = done.pop();
+      if (!command) return null;
+      undone.push(command);
+      return command.revert(state);
+    },
+    redo: (state) => {
+      const command = undone.pop();
+      if (!command) return null;
+      done.push(command);
+      return command.apply(state);
+    },
+    peekUndo: () => done[done.length - 1],
+    peekRedo: () => undone[undone.length - 1],
+    clear: () => {
+      done = [];
+      undone = [];
+    },
+  };
+};
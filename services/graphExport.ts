@@ -0,0 +1,201 @@
+import { TrendNode, Edge } from '../types';
+import { edgeEndpointId, indexNodes, buildChildIndex } from './graphUtils';
+import { getNodeSize, isBreakingNode, hasNewBadge } from './nodeMetrics';
+import { EDGE_COLOR, ARROW_LENGTH, ARROW_HALF_WIDTH, edgeLine, wrapText, nodeColors } from './nodeStyle';
+import { edgeStrokeWidth } from './edgeRelations';
+
+const EXPORT_PADDING = 60;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const resolveEdges = (nodes: TrendNode[], edges: Edge[]) => {
+  const byId = indexNodes(nodes);
+  return edges
+    .map(edge => ({ edge, source: byId.get(edgeEndpointId(edge.source)), target: byId.get(edgeEndpointId(edge.target)) }))
+    .filter((e): e is { edge: Edge; source: TrendNode; target: TrendNode } => !!e.source && !!e.target);
+};
+
+export const graphBounds = (nodes: TrendNode[]) => {
+  if (nodes.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return nodes.reduce((b, node) => {
+    const r = getNodeSize(node) / 2;
+    return {
+      minX: Math.min(b.minX, node.x - r),
+      minY: Math.min(b.minY, node.y - r),
+      maxX: Math.max(b.maxX, node.x + r),
+      maxY: Math.max(b.maxY, node.y + r),
+    };
+  }, { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+};
+
+export const graphToSvg = (nodes: TrendNode[], edges: Edge[]): string => {
+  const bounds = graphBounds(nodes);
+  const width = Math.ceil(bounds.maxX - bounds.minX + EXPORT_PADDING * 2);
+  const height = Math.ceil(bounds.maxY - bounds.minY + EXPORT_PADDING * 2);
+  const offsetX = EXPORT_PADDING - bounds.minX;
+  const offsetY = EXPORT_PADDING - bounds.minY;
+
+  const edgeMarkup = resolveEdges(nodes, edges).map(({ edge, source, target }) => {
+    const { x1, y1, x2, y2 } = edgeLine(source, target);
+    return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" stroke="${EDGE_COLOR}" stroke-width="${edgeStrokeWidth(edge)}" stroke-opacity="0.5" marker-end="url(#arrow)" />`;
+  });
+
+  const nodeMarkup = nodes.map(node => {
+    const size = getNodeSize(node);
+    const r = size / 2;
+    const { fill, stroke, strokeWidth } = nodeColors(node);
+    const labelLines = wrapText(node.label, size - 30, 14, 3);
+    const translationLines = node.translation ? wrapText(node.translation.toUpperCase(), size - 30, 9, 2) : [];
+    const blockHeight = labelLines.length * 16 + (translationLines.length ? 4 + translationLines.length * 10 : 0);
+    let y = node.y - blockHeight / 2 + 12;
+    const text = [
+      ...labelLines.map(line => { const el = `<text x="${node.x.toFixed(1)}" y="${y.toFixed(1)}" font-size="14" font-weight="700" fill="#000">${escapeXml(line)}</text>`; y += 16; return el; }),
+      ...translationLines.map((line, i) => { if (i === 0) y += 2; const el = `<text x="${node.x.toFixed(1)}" y="${y.toFixed(1)}" font-size="9" font-style="italic" fill="#4b5563">${escapeXml(line)}</text>`; y += 10; return el; }),
+    ];
+    const badge = hasNewBadge(node)
+      ? `<g><rect x="${(node.x + r * 0.55).toFixed(1)}" y="${(node.y - r * 0.95).toFixed(1)}" width="30" height="14" rx="7" fill="#ef4444" /><text x="${(node.x + r * 0.55 + 15).toFixed(1)}" y="${(node.y - r * 0.95 + 10).toFixed(1)}" font-size="8" font-weight="700" fill="#fff">NEW</text></g>`
+      : '';
+    return `<g><circle cx="${node.x.toFixed(1)}" cy="${node.y.toFixed(1)}" r="${r.toFixed(1)}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />${text.join('')}${badge}</g>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><marker id="arrow" viewBox="0 0 ${ARROW_LENGTH} ${ARROW_HALF_WIDTH * 2}" refX="${ARROW_LENGTH}" refY="${ARROW_HALF_WIDTH}" markerWidth="${ARROW_LENGTH}" markerHeight="${ARROW_HALF_WIDTH * 2}" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,0 L${ARROW_LENGTH},${ARROW_HALF_WIDTH} L0,${ARROW_HALF_WIDTH * 2} z" fill="${EDGE_COLOR}" fill-opacity="0.7" /></marker></defs>`,
+    `<rect width="100%" height="100%" fill="#ffffff" />`,
+    `<g transform="translate(${offsetX.toFixed(1)} ${offsetY.toFixed(1)})" font-family="Inter, sans-serif" text-anchor="middle">`,
+    ...edgeMarkup,
+    ...nodeMarkup,
+    `</g>`,
+    `</svg>`,
+  ].join('\n');
+};
+
+export const svgToPngBlob = (svg: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed")), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render SVG"));
+    };
+    image.src = url;
+  });
+
+export const graphToGraphML = (nodes: TrendNode[], edges: Edge[]): string => {
+  const data = (key: string, value: unknown) => value === undefined || value === null ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+    `  <key id="translation" for="node" attr.name="translation" attr.type="string"/>`,
+    `  <key id="weight" for="node" attr.name="weight" attr.type="int"/>`,
+    `  <key id="level" for="node" attr.name="level" attr.type="int"/>`,
+    `  <key id="isSelected" for="node" attr.name="isSelected" attr.type="boolean"/>`,
+    `  <key id="isInitial" for="node" attr.name="isInitial" attr.type="boolean"/>`,
+    `  <key id="category" for="node" attr.name="category" attr.type="string"/>`,
+    `  <key id="sentiment" for="node" attr.name="sentiment" attr.type="double"/>`,
+    `  <key id="entityType" for="node" attr.name="entityType" attr.type="string"/>`,
+    `  <key id="x" for="node" attr.name="x" attr.type="double"/>`,
+    `  <key id="y" for="node" attr.name="y" attr.type="double"/>`,
+    `  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>`,
+    `  <key id="strength" for="edge" attr.name="strength" attr.type="double"/>`,
+    `  <graph id="trendnode" edgedefault="directed">`,
+    ...nodes.map(n =>
+      `    <node id="${escapeXml(n.id)}">${data('label', n.label)}${data('translation', n.translation)}${data('weight', n.weight)}${data('level', n.level)}${data('isSelected', n.isSelected)}${data('isInitial', !!n.isInitial)}${data('category', n.category)}${data('sentiment', n.sentiment)}${data('entityType', n.entityType)}${data('x', n.x.toFixed(2))}${data('y', n.y.toFixed(2))}</node>`
+    ),
+    ...resolveEdges(nodes, edges).map(({ edge, source, target }) =>
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(source.id)}" target="${escapeXml(target.id)}">${data('relation', edge.relation)}${data('strength', edge.strength)}</edge>`
+    ),
+    `  </graph>`,
+    `</graphml>`,
+  ].join('\n');
+};
+
+export const graphToGexf = (nodes: TrendNode[], edges: Edge[]): string => [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">`,
+  `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>TrendNode AI</creator></meta>`,
+  `  <graph defaultedgetype="directed" mode="static">`,
+  `    <attributes class="node">`,
+  `      <attribute id="translation" title="translation" type="string"/>`,
+  `      <attribute id="weight" title="weight" type="integer"/>`,
+  `      <attribute id="level" title="level" type="integer"/>`,
+  `      <attribute id="isSelected" title="isSelected" type="boolean"/>`,
+  `      <attribute id="isInitial" title="isInitial" type="boolean"/>`,
+  `      <attribute id="category" title="category" type="string"/>`,
+  `      <attribute id="sentiment" title="sentiment" type="double"/>`,
+  `      <attribute id="entityType" title="entityType" type="string"/>`,
+  `    </attributes>`,
+  `    <attributes class="edge">`,
+  `      <attribute id="relation" title="relation" type="string"/>`,
+  `    </attributes>`,
+  `    <nodes>`,
+  ...nodes.map(n => [
+    `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.label)}">`,
+    `        <attvalues><attvalue for="translation" value="${escapeXml(n.translation)}"/><attvalue for="weight" value="${n.weight ?? 0}"/><attvalue for="level" value="${n.level}"/><attvalue for="isSelected" value="${n.isSelected}"/><attvalue for="isInitial" value="${!!n.isInitial}"/>${n.category ? `<attvalue for="category" value="${escapeXml(n.category)}"/>` : ''}${n.sentiment !== undefined ? `<attvalue for="sentiment" value="${escapeXml(String(n.sentiment))}"/>` : ''}${n.entityType ? `<attvalue for="entityType" value="${escapeXml(n.entityType)}"/>` : ''}</attvalues>`,
+    `        <viz:position x="${n.x.toFixed(2)}" y="${(-n.y).toFixed(2)}" z="0"/><viz:size value="${(getNodeSize(n) / 2).toFixed(1)}"/>`,
+    isBreakingNode(n) ? `        <viz:color r="239" g="68" b="68"/>` : '',
+    `      </node>`,
+  ].filter(Boolean).join('\n')),
+  `    </nodes>`,
+  `    <edges>`,
+  ...resolveEdges(nodes, edges).map(({ edge, source, target }) =>
+    `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(source.id)}" target="${escapeXml(target.id)}"${edge.strength !== undefined ? ` weight="${escapeXml(String(edge.strength))}"` : ''}>${edge.relation ? `<attvalues><attvalue for="relation" value="${escapeXml(edge.relation)}"/></attvalues>` : ''}</edge>`
+  ),
+  `    </edges>`,
+  `  </graph>`,
+  `</gexf>`,
+].join('\n');
+
+// Nested outline following the level hierarchy, starting from the initial node
+export const graphToMarkdown = (nodes: TrendNode[], edges: Edge[], title?: string): string => {
+  const children = buildChildIndex(nodes, edges);
+  const hasParent = new Set([...children.values()].flat().map(n => n.id));
+  const roots = nodes
+    .filter(n => n.isInitial || !hasParent.has(n.id))
+    .sort((a, b) => Number(!!b.isInitial) - Number(!!a.isInitial) || a.level - b.level);
+
+  const visited = new Set<string>();
+  const lines: string[] = [`# ${title ?? roots[0]?.label ?? 'Trend Map'}`, ''];
+
+  const describe = (node: TrendNode) => {
+    const meta = [node.weight !== undefined ? `weight ${node.weight}` : null, isBreakingNode(node) ? 'breaking' : null, node.isSelected ? 'selected' : null]
+      .filter(Boolean).join(', ');
+    const translation = node.translation && node.translation !== node.label ? ` — ${node.translation}` : '';
+    return `**${node.label}**${translation}${meta ? ` _(${meta})_` : ''}`;
+  };
+
+  const walk = (node: TrendNode, depth: number) => {
+    if (visited.has(node.id)) return;
+    visited.add(node.id);
+    lines.push(`${'  '.repeat(depth)}- ${describe(node)}`);
+    [...(children.get(node.id) ?? [])]
+      .sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0))
+      .forEach(child => walk(child, depth + 1));
+  };
+
+  roots.forEach(root => walk(root, 0));
+
+  const unlinked = nodes.filter(n => !visited.has(n.id));
+  if (unlinked.length > 0) {
+    lines.push('', '## Unlinked', '');
+    unlinked.forEach(node => lines.push(`- ${describe(node)}`));
+  }
+  return lines.join('\n') + '\n';
+};
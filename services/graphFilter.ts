@@ -0,0 +1,129 @@
+import { TrendNode, Edge, TrendCategory, EntityType, EdgeRelation } from '../types';
+import { edgeEndpointId } from './graphUtils';
+import { SentimentBucket, sentimentBucket } from './nodeTaxonomy';
+
+export type FilterMode = 'dim' | 'hide';
+
+export interface GraphFilter {
+  text: string;
+  minWeight: number;
+  maxWeight: number;
+  minLevel: number;
+  maxLevel: number; // Infinity means no upper bound
+  selectedOnly: boolean;
+  // Empty lists let every value through
+  categories: TrendCategory[];
+  entityTypes: EntityType[];
+  sentiments: SentimentBucket[];
+  relations: EdgeRelation[]; // Keeps edges of these relations and the nodes they connect
+  mode: FilterMode;
+}
+
+export const DEFAULT_FILTER: GraphFilter = {
+  text: '',
+  minWeight: 1,
+  maxWeight: 10,
+  minLevel: 0,
+  maxLevel: Infinity,
+  selectedOnly: false,
+  categories: [],
+  entityTypes: [],
+  sentiments: [],
+  relations: [],
+  mode: 'dim',
+};
+
+const normalize = (value: string) => value.normalize('NFKC').toLowerCase();
+
+export const isFilterActive = (filter: GraphFilter) =>
+  filter.text.trim() !== '' || filter.minWeight > DEFAULT_FILTER.minWeight || filter.maxWeight < DEFAULT_FILTER.maxWeight
+  || filter.minLevel > DEFAULT_FILTER.minLevel || filter.maxLevel !== DEFAULT_FILTER.maxLevel || filter.selectedOnly
+  || filter.categories.length > 0 || filter.entityTypes.length > 0 || filter.sentiments.length > 0
+  || filter.relations.length > 0;
+
+export const matchesFilter = (node: TrendNode, filter: GraphFilter) => {
+  const text = normalize(filter.text.trim());
+  if (text && !normalize(node.label).includes(text) && !normalize(node.translation || '').includes(text)) return false;
+  // Unweighted nodes (roots, hand-written ones) only drop out once the weight range is narrowed
+  const weightNarrowed = filter.minWeight > DEFAULT_FILTER.minWeight || filter.maxWeight < DEFAULT_FILTER.maxWeight;
+  if (weightNarrowed && (node.weight === undefined || node.weight < filter.minWeight || node.weight > filter.maxWeight)) return false;
+  if (node.level < filter.minLevel || node.level > filter.maxLevel) return false;
+  if (filter.selectedOnly && !node.isSelected) return false;
+  if (filter.categories.length > 0 && !(node.category && filter.categories.includes(node.category))) return false;
+  if (filter.entityTypes.length > 0 && !(node.entityType && filter.entityTypes.includes(node.entityType))) return false;
+  const sentiment = sentimentBucket(node.sentiment);
+  if (filter.sentiments.length > 0 && !(sentiment && filter.sentiments.includes(sentiment))) return false;
+  return true;
+};
+
+// Adds the value to a facet list, or removes it if it is already there
+export const toggleFacet = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const matchesRelation = (edge: Edge, filter: GraphFilter) =>
+  filter.relations.length === 0 || (!!edge.relation && filter.relations.includes(edge.relation));
+
+// Ids of matching nodes, or null when the filter lets everything through. With relations chosen a node
+// also needs at least one edge of those relations, so a root stays in with its matching children.
+export const filterNodes = (nodes: TrendNode[], edges: Edge[], filter: GraphFilter): Set<string> | null => {
+  if (!isFilterActive(filter)) return null;
+  const related = new Set<string>();
+  if (filter.relations.length > 0) {
+    edges.filter(edge => matchesRelation(edge, filter)).forEach(edge => {
+      related.add(edgeEndpointId(edge.source)).add(edgeEndpointId(edge.target));
+    });
+  }
+  return new Set(nodes
+    .filter(n => matchesFilter(n, filter) && (filter.relations.length === 0 || related.has(n.id)))
+    .map(n => n.id));
+};
+
+// Ids of edges between two matching nodes that also pass the relation facet; null like filterNodes
+export const filterEdges = (edges: Edge[], matchIds: Set<string> | null, filter: GraphFilter): Set<string> | null =>
+  matchIds && new Set(edges
+    .filter(edge => matchIds.has(edgeEndpointId(edge.source)) && matchIds.has(edgeEndpointId(edge.target)) && matchesRelation(edge, filter))
+    .map(edge => edge.id));
+
+export interface GraphPath {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+// Shortest path (ignoring edge direction) from the nearest initial node to the target
+export const findPathToRoot = (targetId: string, nodes: TrendNode[], edges: Edge[]): GraphPath | null => {
+  const adjacency = new Map<string, { nodeId: string; edgeId: string }[]>();
+  edges.forEach(edge => {
+    const s = edgeEndpointId(edge.source);
+    const t = edgeEndpointId(edge.target);
+    adjacency.set(s, [...(adjacency.get(s) ?? []), { nodeId: t, edgeId: edge.id }]);
+    adjacency.set(t, [...(adjacency.get(t) ?? []), { nodeId: s, edgeId: edge.id }]);
+  });
+  const roots = new Set(nodes.filter(n => n.isInitial).map(n => n.id));
+  if (roots.size === 0) {
+    const minLevel = Math.min(...nodes.map(n => n.level));
+    nodes.filter(n => n.level === minLevel).forEach(n => roots.add(n.id));
+  }
+
+  // BFS outward from the target until any root is reached, then walk the breadcrumbs back
+  const cameFrom = new Map<string, { nodeId: string; edgeId: string } | null>([[targetId, null]]);
+  const queue = [targetId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (roots.has(current)) {
+      const path: GraphPath = { nodeIds: new Set([current]), edgeIds: new Set() };
+      let step = cameFrom.get(current);
+      while (step) {
+        path.nodeIds.add(step.nodeId);
+        path.edgeIds.add(step.edgeId);
+        step = cameFrom.get(step.nodeId);
+      }
+      return path;
+    }
+    (adjacency.get(current) ?? []).forEach(next => {
+      if (cameFrom.has(next.nodeId)) return;
+      cameFrom.set(next.nodeId, { nodeId: current, edgeId: next.edgeId });
+      queue.push(next.nodeId);
+    });
+  }
+  return null;
+};
@@ -0,0 +1,370 @@
+import { TrendNode, Edge } from '../types';
+import { NodeDiff } from './mapDiff';
+import { edgeEndpointId, indexNodes } from './graphUtils';
+import { getNodeSize, hasNewBadge } from './nodeMetrics';
+import { categoryOption, entityTypeOption, sentimentOption } from './nodeTaxonomy';
+import { EDGE_COLOR, FLOWING_EDGE_COLOR, ARROW_LENGTH, ARROW_HALF_WIDTH, edgeLine, wrapText, nodeColors } from './nodeStyle';
+import { edgeStrokeWidth } from './edgeRelations';
+import { RenderMode } from './settings';
+import { FilterMode, GraphPath } from './graphFilter';
+
+export const RENDER_MODE_OPTIONS: { id: RenderMode; name: string }[] = [
+  { id: 'auto', name: 'Automatic' },
+  { id: 'dom', name: 'Always DOM elements' },
+  { id: 'canvas', name: 'Always canvas' },
+];
+
+// Above this many nodes 'auto' switches from one DOM element per node to the canvas layer
+export const CANVAS_NODE_THRESHOLD = 150;
+// Below this on-screen radius labels are unreadable anyway, so they are skipped
+const MIN_LABEL_RADIUS = 18;
+const CULL_MARGIN = 80;
+
+export const shouldUseCanvas = (mode: RenderMode, nodeCount: number) =>
+  mode === 'canvas' || (mode === 'auto' && nodeCount > CANVAS_NODE_THRESHOLD);
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+export interface DrawOptions {
+  width: number; // CSS pixels
+  height: number;
+  transform: ViewTransform;
+  hiddenNodeIds: Set<string>; // Nodes currently rendered as DOM elements on top of the canvas
+  flowingNodeIds: Set<string>; // Expanding nodes whose edges get the animated dash
+  diff?: Map<string, NodeDiff>;
+  matchIds?: Set<string> | null; // Filter result; null when no filter is active
+  edgeMatchIds?: Set<string> | null;
+  filterMode?: FilterMode;
+  path?: GraphPath | null;
+  time: number;
+}
+
+// Opacity of nodes and edges that do not match the active filter in 'dim' mode
+export const DIMMED_ALPHA = 0.15;
+
+interface LabelLayout {
+  key: string;
+  label: string[];
+  translation: string[];
+}
+
+// Wrapping is the expensive part of a frame; positions change every tick but text rarely does
+const labelCache = new WeakMap<TrendNode, LabelLayout>();
+
+const layoutLabel = (node: TrendNode, size: number): LabelLayout => {
+  const key = `${size}|${node.label}|${node.translation}`;
+  const cached = labelCache.get(node);
+  if (cached?.key === key) return cached;
+  const layout = {
+    key,
+    label: wrapText(node.label, size - 30, 14, 3),
+    translation: node.translation ? wrapText(node.translation.toUpperCase(), size - 30, 9, 2) : [],
+  };
+  labelCache.set(node, layout);
+  return layout;
+};
+
+const drawPill = (ctx: CanvasRenderingContext2D, cx: number, cy: number, text: string, fill: string, color: string) => {
+  ctx.font = '700 8px Inter, sans-serif';
+  const width = ctx.measureText(text).width + 12;
+  ctx.beginPath();
+  ctx.roundRect(cx - width / 2, cy - 7, width, 14, 7);
+  ctx.fillStyle = fill;
+  ctx.fill();
+  ctx.fillStyle = color;
+  ctx.fillText(text, cx, cy + 3);
+};
+
+const drawNode = (ctx: CanvasRenderingContext2D, node: TrendNode, k: number, diff?: NodeDiff, isOnPath?: boolean) => {
+  const size = getNodeSize(node);
+  const r = size / 2;
+  const { fill, stroke, strokeWidth } = nodeColors(node);
+
+  ctx.beginPath();
+  ctx.arc(node.x, node.y, r, 0, Math.PI * 2);
+  // No backdrop blur on canvas: a mostly opaque white base stands in for the frosted glass
+  if (node.isInitial || node.isSelected) {
+    ctx.shadowColor = node.isSelected ? 'rgba(250, 204, 21, 0.25)' : 'rgba(0, 0, 0, 0.15)';
+    ctx.shadowBlur = 24;
+  }
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+  ctx.fillStyle = fill;
+  ctx.fill();
+  ctx.lineWidth = strokeWidth;
+  ctx.strokeStyle = stroke;
+  ctx.stroke();
+
+  if (isOnPath) {
+    ctx.beginPath();
+    ctx.arc(node.x, node.y, r + 3, 0, Math.PI * 2);
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.stroke();
+  } else if (diff?.status === 'new') {
+    ctx.beginPath();
+    ctx.arc(node.x, node.y, r + 3, 0, Math.PI * 2);
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = 'rgba(52, 211, 153, 0.6)';
+    ctx.stroke();
+  }
+
+  // Category color stays visible when zoomed out too far for labels
+  const category = categoryOption(node);
+  const entityType = entityTypeOption(node);
+  const badgeX = node.x + r * 0.7;
+  const badgeY = node.y + r * 0.7;
+  if (category || entityType) {
+    ctx.beginPath();
+    ctx.arc(badgeX, badgeY, 12, 0, Math.PI * 2);
+    ctx.fillStyle = category?.color ?? '#fff';
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#fff';
+    ctx.stroke();
+  }
+
+  if (r * k < MIN_LABEL_RADIUS) return;
+
+  const { label, translation } = layoutLabel(node, size);
+  const blockHeight = label.length * 16 + (translation.length ? 4 + translation.length * 10 : 0);
+  let y = node.y - blockHeight / 2 + 12;
+  ctx.fillStyle = '#000';
+  ctx.font = '700 14px Inter, sans-serif';
+  label.forEach(line => { ctx.fillText(line, node.x, y); y += 16; });
+  if (translation.length) {
+    y += 2;
+    ctx.fillStyle = 'rgba(75, 85, 99, 0.8)';
+    ctx.font = 'italic 9px Inter, sans-serif';
+    translation.forEach(line => { ctx.fillText(line, node.x, y); y += 10; });
+  }
+  const sentiment = sentimentOption(node);
+  if (sentiment) {
+    ctx.fillStyle = sentiment.color;
+    ctx.fillRect(node.x - 16, y - 4, 32, 4);
+  }
+  if (entityType) {
+    ctx.font = '11px sans-serif';
+    ctx.fillText(entityType.icon, badgeX, badgeY + 4);
+  }
+
+  if (hasNewBadge(node)) drawPill(ctx, node.x + r * 0.7, node.y - r * 0.85, 'NEW', '#ef4444', '#fff');
+  if (node.pinned) drawPill(ctx, node.x - r * 0.7, node.y + r * 0.75, '📌', '#000', '#facc15');
+  if (node.expansion?.fromCache) drawPill(ctx, node.x, node.y + r + 1, 'CACHED ↻', '#facc15', '#000');
+  if (diff && diff.status === 'weight_changed') {
+    const arrow = (node.weight ?? 0) > (diff.previousWeight ?? 0) ? '▲' : '▼';
+    drawPill(ctx, node.x, node.y - r - 1, `${arrow} ${diff.previousWeight ?? 0}→${node.weight ?? 0}`, '#fbbf24', '#000');
+  } else if (diff?.status === 'new') {
+    drawPill(ctx, node.x, node.y - r - 1, 'SINCE LAST', '#10b981', '#fff');
+  }
+};
+
+const addArrow = (path: Path2D, { x1, y1, x2, y2 }: ReturnType<typeof edgeLine>) => {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length < ARROW_LENGTH) return;
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+  const baseX = x2 - ux * ARROW_LENGTH;
+  const baseY = y2 - uy * ARROW_LENGTH;
+  path.moveTo(x2, y2);
+  path.lineTo(baseX - uy * ARROW_HALF_WIDTH, baseY + ux * ARROW_HALF_WIDTH);
+  path.lineTo(baseX + uy * ARROW_HALF_WIDTH, baseY - ux * ARROW_HALF_WIDTH);
+  path.closePath();
+};
+
+// Draws edges and nodes in one pass, skipping anything outside the viewport
+export const drawGraph = (ctx: CanvasRenderingContext2D, nodes: TrendNode[], edges: Edge[], options: DrawOptions) => {
+  const { width, height, transform: t, hiddenNodeIds, flowingNodeIds, diff, matchIds, edgeMatchIds, filterMode = 'dim', path, time } = options;
+  const isMatch = (id: string) => !matchIds || matchIds.has(id);
+  const dpr = window.devicePixelRatio || 1;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.translate(t.x, t.y);
+  ctx.scale(t.k, t.k);
+
+  const minX = -t.x / t.k - CULL_MARGIN;
+  const minY = -t.y / t.k - CULL_MARGIN;
+  const maxX = (width - t.x) / t.k + CULL_MARGIN;
+  const maxY = (height - t.y) / t.k + CULL_MARGIN;
+  const isVisible = (x: number, y: number, r: number) => x + r >= minX && x - r <= maxX && y + r >= minY && y - r <= maxY;
+
+  const byId = indexNodes(nodes);
+  const regular = new Map<number, Path2D>(); // Keyed by stroke width, which follows the relation strength
+  const manual = new Path2D();
+  const flowing = new Path2D();
+  const dimmed = new Path2D();
+  const highlighted = new Path2D();
+  const arrows = new Path2D();
+  const dimmedArrows = new Path2D();
+  const highlightedArrows = new Path2D();
+  edges.forEach(edge => {
+    const s = byId.get(edgeEndpointId(edge.source));
+    const e = byId.get(edgeEndpointId(edge.target));
+    if (!s || !e) return;
+    if (Math.max(s.x, e.x) < minX || Math.min(s.x, e.x) > maxX || Math.max(s.y, e.y) < minY || Math.min(s.y, e.y) > maxY) return;
+    const matches = !edgeMatchIds || edgeMatchIds.has(edge.id);
+    if (!matches && filterMode === 'hide') return;
+    const width = edgeStrokeWidth(edge);
+    if (!edge.isManual && !regular.has(width)) regular.set(width, new Path2D());
+    const target = path?.edgeIds.has(edge.id) ? highlighted
+      : !matches ? dimmed
+      : flowingNodeIds.has(s.id) || flowingNodeIds.has(e.id) ? flowing
+      : edge.isManual ? manual : regular.get(width)!;
+    const line = edgeLine(s, e);
+    target.moveTo(line.x1, line.y1);
+    target.lineTo(line.x2, line.y2);
+    if (target !== flowing) addArrow(target === highlighted ? highlightedArrows : target === dimmed ? dimmedArrows : arrows, line);
+  });
+
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = EDGE_COLOR;
+  ctx.fillStyle = EDGE_COLOR;
+  ctx.globalAlpha = DIMMED_ALPHA * 0.4;
+  ctx.stroke(dimmed);
+  ctx.fill(dimmedArrows);
+  ctx.globalAlpha = 0.4;
+  regular.forEach((edgePath, width) => {
+    ctx.lineWidth = width;
+    ctx.stroke(edgePath);
+  });
+  ctx.globalAlpha = 0.7;
+  ctx.fill(arrows);
+  ctx.globalAlpha = 0.4;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  ctx.stroke(manual);
+  // Same motion as the .line-flowing CSS animation: dash offset 100 → 0 every 2s
+  ctx.globalAlpha = 0.8;
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = FLOWING_EDGE_COLOR;
+  ctx.setLineDash([10, 10]);
+  ctx.lineDashOffset = 100 - (time % 2000) / 20;
+  ctx.stroke(flowing);
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 0.8;
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = '#000';
+  ctx.fillStyle = '#000';
+  ctx.stroke(highlighted);
+  ctx.fill(highlightedArrows);
+  ctx.globalAlpha = 1;
+
+  ctx.textAlign = 'center';
+  nodes.forEach(node => {
+    if (hiddenNodeIds.has(node.id) || !isVisible(node.x, node.y, getNodeSize(node) / 2)) return;
+    const matches = isMatch(node.id);
+    if (!matches && filterMode === 'hide') return;
+    ctx.globalAlpha = matches ? 1 : DIMMED_ALPHA;
+    drawNode(ctx, node, t.k, diff?.get(node.id), path?.nodeIds.has(node.id));
+  });
+  ctx.globalAlpha = 1;
+};
+
+// Topmost node under a world-space point; nodes are drawn in array order so search from the end
+export const findNodeAt = (nodes: TrendNode[], x: number, y: number): TrendNode | undefined => {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    const r = getNodeSize(node) / 2;
+    const dx = node.x - x;
+    const dy = node.y - y;
+    if (dx * dx + dy * dy <= r * r) return node;
+  }
+  return undefined;
+};
+
+// Closest edge within tolerance (world units) of a world-space point; test nodes first, they sit on top
+export const findEdgeAt = (nodes: TrendNode[], edges: Edge[], x: number, y: number, tolerance: number): Edge | undefined => {
+  const byId = indexNodes(nodes);
+  let closest: Edge | undefined;
+  let closestDistance = tolerance;
+  edges.forEach(edge => {
+    const s = byId.get(edgeEndpointId(edge.source));
+    const e = byId.get(edgeEndpointId(edge.target));
+    if (!s || !e) return;
+    const dx = e.x - s.x;
+    const dy = e.y - s.y;
+    const lengthSq = dx * dx + dy * dy;
+    const along = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - s.x) * dx + (y - s.y) * dy) / lengthSq));
+    const distance = Math.hypot(s.x + dx * along - x, s.y + dy * along - y) - edgeStrokeWidth(edge) / 2;
+    if (distance <= closestDistance) {
+      closest = edge;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+};
+
+export interface WorldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maps a world rectangle onto a canvas of the given CSS size, centred and scaled to fit like an SVG viewBox
+export interface MinimapProjection {
+  unit: number; // World units per CSS pixel
+  originX: number; // World point at the canvas's top-left corner
+  originY: number;
+}
+
+export const projectMinimap = (bounds: WorldRect, width: number, height: number): MinimapProjection => {
+  const unit = Math.max(bounds.width / width, bounds.height / height);
+  return {
+    unit,
+    originX: bounds.x - (width * unit - bounds.width) / 2,
+    originY: bounds.y - (height * unit - bounds.height) / 2,
+  };
+};
+
+const minimapNodeColor = (node: TrendNode) =>
+  node.isInitial ? '#000' : node.isSelected ? '#facc15' : categoryOption(node)?.color ?? '#9ca3af';
+
+// Whole graph in a handful of batched paths: one for the edges and one per node color
+export const drawMinimap = (ctx: CanvasRenderingContext2D, nodes: TrendNode[], edges: Edge[], viewport: WorldRect, projection: MinimapProjection) => {
+  const { unit, originX, originY } = projection;
+  const dpr = window.devicePixelRatio || 1;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.setTransform(dpr / unit, 0, 0, dpr / unit, -originX * dpr / unit, -originY * dpr / unit);
+
+  const byId = indexNodes(nodes);
+  const lines = new Path2D();
+  edges.forEach(edge => {
+    const s = byId.get(edgeEndpointId(edge.source));
+    const t = byId.get(edgeEndpointId(edge.target));
+    if (!s || !t) return;
+    lines.moveTo(s.x, s.y);
+    lines.lineTo(t.x, t.y);
+  });
+  ctx.lineWidth = unit;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+  ctx.stroke(lines);
+
+  const dots = new Map<string, Path2D>();
+  nodes.forEach(node => {
+    const color = minimapNodeColor(node);
+    if (!dots.has(color)) dots.set(color, new Path2D());
+    const r = unit * (node.isInitial ? 4 : 2.5);
+    const path = dots.get(color)!;
+    path.moveTo(node.x + r, node.y);
+    path.arc(node.x, node.y, r, 0, Math.PI * 2);
+  });
+  dots.forEach((path, color) => {
+    ctx.fillStyle = color;
+    ctx.fill(path);
+  });
+
+  ctx.beginPath();
+  ctx.roundRect(viewport.x, viewport.y, viewport.width, viewport.height, unit * 3);
+  ctx.fillStyle = 'rgba(250, 204, 21, 0.12)';
+  ctx.fill();
+  ctx.lineWidth = unit * 1.5;
+  ctx.strokeStyle = '#000';
+  ctx.stroke();
+};
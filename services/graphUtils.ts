@@ -0,0 +1,45 @@
+import { TrendNode, Edge, TrendKeyword } from '../types';
+
+// d3's forceLink swaps edge endpoints for node objects; this resolves either form to an id
+export const edgeEndpointId = (endpoint: string | any): string =>
+  typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+export const indexNodes = (nodes: TrendNode[]): Map<string, TrendNode> =>
+  new Map(nodes.map(n => [n.id, n]));
+
+// Children along the expansion hierarchy: edges that lead one or more levels deeper
+export const buildChildIndex = (nodes: TrendNode[], edges: Edge[]): Map<string, TrendNode[]> => {
+  const byId = indexNodes(nodes);
+  const children = new Map<string, TrendNode[]>();
+  edges.forEach(edge => {
+    const source = byId.get(edgeEndpointId(edge.source));
+    const target = byId.get(edgeEndpointId(edge.target));
+    if (!source || !target || target.level <= source.level) return;
+    const list = children.get(source.id) ?? [];
+    list.push(target);
+    children.set(source.id, list);
+  });
+  return children;
+};
+
+export const createNodeId = () => Math.random().toString(36).substr(2, 9);
+
+// New children start in a small ring around their parent and let the simulation spread them out
+export const createChildNode = (parent: TrendNode, trend: TrendKeyword, index: number, total: number): TrendNode => {
+  const angle = (index / total) * Math.PI * 2;
+  const dist = 50;
+  return {
+    id: createNodeId(),
+    label: trend.keyword,
+    translation: trend.translation,
+    weight: trend.weight,
+    sources: trend.sources,
+    category: trend.category,
+    sentiment: trend.sentiment,
+    entityType: trend.entityType,
+    x: parent.x + Math.cos(angle) * dist,
+    y: parent.y + Math.sin(angle) * dist,
+    level: parent.level + 1,
+    isSelected: false,
+  };
+};
@@ -0,0 +1,27 @@
+import { HistoryItem, TrendNode, Edge } from '../types';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+import { edgeEndpointId } from './graphUtils';
+
+// Plain, simulation-free copy: drops d3 velocities/fixes and resolves edge endpoints back to ids
+export const snapshotHistoryItem = (item: HistoryItem): HistoryItem => ({
+  ...item,
+  nodes: item.nodes.map(({ vx, vy, fx, fy, ...node }): TrendNode => node.pinned ? { ...node, fx, fy } : { ...node }),
+  edges: item.edges.map((edge): Edge => ({ ...edge, source: edgeEndpointId(edge.source), target: edgeEndpointId(edge.target) })),
+});
+
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readonly');
+  const items = await requestToPromise(tx.objectStore(STORES.history).getAll() as IDBRequest<HistoryItem[]>);
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Replaces the stored set with the given sessions in a single transaction
+export const saveHistory = async (items: HistoryItem[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  const store = tx.objectStore(STORES.history);
+  store.clear();
+  items.forEach(item => store.put(snapshotHistoryItem(item)));
+  await transactionDone(tx);
+};
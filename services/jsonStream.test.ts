@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createJsonArrayStream } from './jsonStream';
+import { parseTrendResponse } from './trendValidation';
+
+const TEXT = '```json\n[{"keyword": "Fed {rate} \\"cut\\"", "weight": 9, "sources": [{"url": "https://a.example/]"}]}, {"keyword": "ECB", "weight": 7}]\n```';
+
+// Feeds the text in pieces of the given size and collects every item in the order it completed
+const streamInChunks = (text: string, size: number) => {
+  const stream = createJsonArrayStream();
+  const items: unknown[] = [];
+  for (let i = 0; i < text.length; i += size) items.push(...stream.push(text.slice(i, i + size)));
+  return items;
+};
+
+test('finds the same items however the text is split', () => {
+  const whole = streamInChunks(TEXT, TEXT.length);
+  assert.deepEqual(whole, [
+    { keyword: 'Fed {rate} "cut"', weight: 9, sources: [{ url: 'https://a.example/]' }] },
+    { keyword: 'ECB', weight: 7 },
+  ]);
+  for (const size of [1, 2, 3, 7, 16]) assert.deepEqual(streamInChunks(TEXT, size), whole, `chunks of ${size}`);
+});
+
+test('hands out each object as soon as it closes', () => {
+  const stream = createJsonArrayStream();
+  assert.deepEqual(stream.push('[{"keyword": "A", "weight": 1}, {"keyword": '), [{ keyword: 'A', weight: 1 }]);
+  assert.deepEqual(stream.push('"B\\\\", "weight": 2}'), [{ keyword: 'B\\', weight: 2 }]);
+  assert.deepEqual(stream.push(']'), []);
+});
+
+test('skips text before the array and drops objects that are not JSON', () => {
+  const stream = createJsonArrayStream();
+  assert.deepEqual(stream.push('Here you go:\n```json\n[{"keyword": "A", weight: 1}, {"keyword": "B", "weight": 2}]'), [{ keyword: 'B', weight: 2 }]);
+});
+
+test('the whole answer passes the final check exactly when it streamed cleanly', () => {
+  const fenced = createJsonArrayStream();
+  [TEXT.slice(0, 40), TEXT.slice(40), '\nHope this helps! [1]'].forEach(chunk => fenced.push(chunk));
+  const result = fenced.end();
+  assert.equal(result.complete, true);
+  assert.equal(result.invalid, 0);
+  assert.deepEqual(parseTrendResponse(result).map(trend => trend.keyword), ['Fed {rate} "cut"', 'ECB']);
+
+  const cutOff = createJsonArrayStream();
+  cutOff.push('[{"keyword": "A", "weight": 1}, {"keyword": "B"');
+  assert.throws(() => parseTrendResponse(cutOff.end()), { kind: 'malformed' });
+
+  const broken = createJsonArrayStream();
+  broken.push('[{"keyword": "A", weight: 1}, {"keyword": "B", "weight": 2}]');
+  assert.throws(() => parseTrendResponse(broken.end()), { kind: 'malformed' });
+});
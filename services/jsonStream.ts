@@ -0,0 +1,62 @@
+export interface JsonArrayResult {
+  items: unknown[]; // Every object read, in order
+  complete: boolean; // The array was closed
+  invalid: number; // Objects that were not valid JSON
+}
+
+// Pulls the objects out of a JSON array while its text is still arriving, in chunks of any size.
+// Anything before the opening bracket or after the closing one (such as a ```json fence) is skipped;
+// an object that is not valid JSON is dropped from the stream and counted for end() to report.
+export const createJsonArrayStream = () => {
+  let buffer = '';
+  let index = 0; // Next character to scan
+  let depth = 0; // 1 inside the top-level array, 2 inside one of its objects, and so on
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1; // Where the object being read began in the buffer
+  const result: JsonArrayResult = { items: [], complete: false, invalid: 0 };
+
+  const push = (chunk: string): unknown[] => {
+    if (result.complete) return [];
+    buffer += chunk;
+    const items: unknown[] = [];
+    for (; index < buffer.length && !result.complete; index++) {
+      const char = buffer[index];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (depth === 0) {
+        if (char === '[') depth = 1;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 1 && char === '{') itemStart = index;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && itemStart >= 0) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, index + 1)));
+          } catch {
+            result.invalid++;
+          }
+          itemStart = -1;
+        }
+        if (depth === 0) result.complete = true;
+      }
+    }
+    // Only the unfinished object needs to be kept
+    const keepFrom = itemStart >= 0 ? itemStart : buffer.length;
+    buffer = buffer.slice(keepFrom);
+    index -= keepFrom;
+    if (itemStart >= 0) itemStart = 0;
+    result.items.push(...items);
+    return items;
+  };
+
+  // Everything the stream read, for checking the answer as a whole once the text has ended
+  const end = (): JsonArrayResult => ({ ...result, items: [...result.items] });
+
+  return { push, end };
+};
@@ -0,0 +1,141 @@
+import * as d3 from 'd3';
+import { TrendNode, Edge } from '../types';
+import { buildChildIndex } from './graphUtils';
+
+export type LayoutMode = 'force' | 'radial' | 'tree' | 'timeline';
+
+export const LAYOUT_OPTIONS: { id: LayoutMode; name: string; hint: string }[] = [
+  { id: 'force', name: 'Force', hint: 'Free-floating simulation' },
+  { id: 'radial', name: 'Radial', hint: 'Rings by expansion level' },
+  { id: 'tree', name: 'Tree', hint: 'Top-down from the root topic' },
+  { id: 'timeline', name: 'Timeline', hint: 'Left to right by recency weight' },
+];
+
+const RING_SPACING = 230;
+const TREE_SIBLING_SPACING = 160;
+const TREE_LEVEL_SPACING = 200;
+const TIMELINE_COLUMN_SPACING = 190;
+const TIMELINE_ROW_SPACING = 150;
+export const LAYOUT_TRANSITION_MS = 700;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface TreeDatum {
+  node?: TrendNode; // Undefined only for the virtual root that joins disconnected components
+  children: TreeDatum[];
+}
+
+// Spanning tree along the expansion hierarchy: each node hangs under the first parent that reaches it
+const buildSpanningTree = (nodes: TrendNode[], edges: Edge[]): TreeDatum => {
+  const children = buildChildIndex(nodes, edges);
+  const seen = new Set<string>();
+  const visit = (node: TrendNode): TreeDatum => {
+    seen.add(node.id);
+    const datum: TreeDatum = { node, children: [] };
+    (children.get(node.id) ?? []).forEach(child => {
+      if (!seen.has(child.id)) datum.children.push(visit(child));
+    });
+    return datum;
+  };
+  const root: TreeDatum = { children: [] };
+  // Initial nodes first, then whatever is still unreached in level order
+  [...nodes].sort((a, b) => Number(!!b.isInitial) - Number(!!a.isInitial) || a.level - b.level).forEach(node => {
+    if (!seen.has(node.id)) root.children.push(visit(node));
+  });
+  return root;
+};
+
+const radialLayout = (nodes: TrendNode[], edges: Edge[], center: Point) => {
+  const hierarchy = d3.hierarchy(buildSpanningTree(nodes, edges));
+  d3.cluster<TreeDatum>().size([Math.PI * 2, 1]).separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+  const minLevel = Math.min(...nodes.map(n => n.level));
+  const targets = new Map<string, Point>();
+  hierarchy.descendants().forEach(d => {
+    if (!d.data.node) return;
+    const radius = (d.data.node.level - minLevel) * RING_SPACING;
+    const angle = (d.x ?? 0) - Math.PI / 2;
+    targets.set(d.data.node.id, { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  });
+  return targets;
+};
+
+const treeLayout = (nodes: TrendNode[], edges: Edge[], center: Point) => {
+  const hierarchy = d3.hierarchy(buildSpanningTree(nodes, edges));
+  d3.tree<TreeDatum>().nodeSize([TREE_SIBLING_SPACING, TREE_LEVEL_SPACING])(hierarchy);
+  const placed = hierarchy.descendants().filter(d => d.data.node);
+  const midX = (Math.min(...placed.map(d => d.x ?? 0)) + Math.max(...placed.map(d => d.x ?? 0))) / 2;
+  const depth = Math.max(...placed.map(d => d.depth));
+  const targets = new Map<string, Point>();
+  placed.forEach(d => {
+    targets.set(d.data.node!.id, {
+      x: center.x + (d.x ?? 0) - midX,
+      y: center.y + (d.depth - 1 - (depth - 1) / 2) * TREE_LEVEL_SPACING,
+    });
+  });
+  return targets;
+};
+
+// One column per weight (unweighted nodes in a column of their own on the left), stacked by level
+const timelineLayout = (nodes: TrendNode[], center: Point) => {
+  const columns = new Map<number, TrendNode[]>();
+  nodes.forEach(node => {
+    const weight = node.weight ?? 0;
+    columns.set(weight, [...(columns.get(weight) ?? []), node]);
+  });
+  const targets = new Map<string, Point>();
+  columns.forEach((column, weight) => {
+    column.sort((a, b) => a.level - b.level || a.label.localeCompare(b.label));
+    column.forEach((node, i) => {
+      targets.set(node.id, {
+        x: center.x + (weight - 5.5) * TIMELINE_COLUMN_SPACING,
+        y: center.y + (i - (column.length - 1) / 2) * TIMELINE_ROW_SPACING,
+      });
+    });
+  });
+  return targets;
+};
+
+// Target positions for the fixed layouts; pinned nodes keep their place and are left out
+export const computeLayout = (mode: Exclude<LayoutMode, 'force'>, nodes: TrendNode[], edges: Edge[], center: Point): Map<string, Point> => {
+  const free = nodes.filter(n => !n.pinned);
+  if (free.length === 0) return new Map();
+  switch (mode) {
+    case 'radial':
+      return radialLayout(free, edges, center);
+    case 'tree':
+      return treeLayout(free, edges, center);
+    case 'timeline':
+      return timelineLayout(free, center);
+  }
+};
+
+interface AnimateOptions {
+  onFrame: () => void;
+  onEnd?: () => void;
+  duration?: number;
+}
+
+// Eases nodes from where they are to their targets; returns a cancel function
+export const animateToLayout = (nodes: TrendNode[], targets: Map<string, Point>, { onFrame, onEnd, duration = LAYOUT_TRANSITION_MS }: AnimateOptions) => {
+  const moves = nodes
+    .filter(n => targets.has(n.id))
+    .map(node => ({ node, from: { x: node.x, y: node.y }, to: targets.get(node.id)! }));
+  const timer = d3.timer(elapsed => {
+    const t = d3.easeCubicInOut(Math.min(1, elapsed / duration));
+    moves.forEach(({ node, from, to }) => {
+      node.x = from.x + (to.x - from.x) * t;
+      node.y = from.y + (to.y - from.y) * t;
+      node.vx = 0;
+      node.vy = 0;
+    });
+    onFrame();
+    if (t >= 1) {
+      timer.stop();
+      onEnd?.();
+    }
+  });
+  return () => timer.stop();
+};
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrendNode } from '../types';
+import { diffMaps } from './mapDiff';
+
+const node = (id: string, label: string, weight: number, translation = ''): TrendNode => ({ id, label, translation, x: 0, y: 0, level: 1, isSelected: false, weight });
+
+test('compares versions by story rather than by node id', () => {
+  const previous = [
+    node('1', 'Fed', 10),
+    node('2', 'Bond Yields Climb', 6),
+    node('3', 'Dollar Rally', 5),
+    node('4', '美联储', 7, 'Federal Reserve'),
+  ];
+  const current = [
+    node('a', 'fed', 10),
+    node('b', 'bond yields climb', 8),
+    node('c', 'Mortgage Rates', 5),
+    node('d', 'Federal Reserve', 7),
+  ];
+
+  const diff = diffMaps(previous, current);
+  assert.deepEqual(diff.byNodeId.get('a'), { status: 'unchanged' });
+  assert.deepEqual(diff.byNodeId.get('b'), { status: 'weight_changed', previousWeight: 6 });
+  assert.deepEqual(diff.byNodeId.get('c'), { status: 'new' });
+  assert.deepEqual(diff.byNodeId.get('d'), { status: 'unchanged' });
+  assert.deepEqual(diff.removed.map(n => n.label), ['Dollar Rally']);
+  assert.equal(diff.added, 1);
+  assert.equal(diff.changed, 1);
+});
+
+test('similar labels match within the threshold', () => {
+  const previous = [node('1', 'OpenAI Sora Release', 8)];
+  const current = [node('a', 'Sora Release', 8)];
+  assert.equal(diffMaps(previous, current).byNodeId.get('a')?.status, 'unchanged');
+  assert.equal(diffMaps(previous, current, { threshold: 1.01 }).byNodeId.get('a')?.status, 'new');
+});
@@ -0,0 +1,58 @@
+import { TrendNode } from '../types';
+import { findMatchingNode, normalizeLabel, MatchOptions } from './nodeMatching';
+import { asKeyword } from './mapRefresh';
+
+export type DiffStatus = 'new' | 'weight_changed' | 'unchanged';
+
+export interface NodeDiff {
+  status: DiffStatus;
+  previousWeight?: number;
+}
+
+export interface MapDiff {
+  byNodeId: Map<string, NodeDiff>;
+  removed: TrendNode[]; // Nodes of the previous version with no counterpart in the current one
+  added: number;
+  changed: number;
+}
+
+// Exact label and translation matches through a lookup, so only nodes without one pay for the similarity scan
+const createMatcher = (candidates: TrendNode[], options?: MatchOptions) => {
+  const byLabel = new Map<string, TrendNode>();
+  candidates.forEach(n => {
+    [n.label, n.translation].filter(Boolean).map(normalizeLabel).forEach(key => {
+      if (!byLabel.has(key)) byLabel.set(key, n);
+    });
+  });
+  return (node: TrendNode) => {
+    const trend = asKeyword(node);
+    return byLabel.get(normalizeLabel(trend.keyword))
+      ?? (trend.translation ? byLabel.get(normalizeLabel(trend.translation)) : undefined)
+      ?? findMatchingNode(trend, candidates, options);
+  };
+};
+
+// Compares two versions of a map by story (label/translation/similarity), not by node id
+export const diffMaps = (previous: TrendNode[], current: TrendNode[], options?: MatchOptions): MapDiff => {
+  const byNodeId = new Map<string, NodeDiff>();
+  let added = 0;
+  let changed = 0;
+
+  const matchPrevious = createMatcher(previous, options);
+  current.forEach(node => {
+    const match = matchPrevious(node);
+    if (!match) {
+      byNodeId.set(node.id, { status: 'new' });
+      added++;
+    } else if ((match.weight ?? 0) !== (node.weight ?? 0)) {
+      byNodeId.set(node.id, { status: 'weight_changed', previousWeight: match.weight });
+      changed++;
+    } else {
+      byNodeId.set(node.id, { status: 'unchanged' });
+    }
+  });
+
+  const matchCurrent = createMatcher(current, options);
+  const removed = previous.filter(node => !matchCurrent(node));
+  return { byNodeId, removed, added, changed };
+};
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryItem, TrendKeyword, TrendNode, Edge } from '../types';
+import { refreshMap, RefreshProgress } from './mapRefresh';
+import { TrendFetchError } from './trendErrors';
+
+const node = (id: string, level: number, extra: Partial<TrendNode> = {}): TrendNode => ({ id, label: id, translation: '', x: 0, y: 0, level, isSelected: false, weight: 5, ...extra });
+const edge = (source: string, target: string, extra: Partial<Edge> = {}): Edge => ({ id: `e-${source}-${target}`, source, target, ...extra });
+const trends = (...keywords: string[]): TrendKeyword[] => keywords.map(keyword => ({ keyword, translation: '', weight: 5 }));
+
+// Fed -> Rates -> (Query, typed by the user) -> Query Child; Fed -> Old Story -> Note (written by hand)
+const item: HistoryItem = {
+  id: 'v1',
+  query: 'Fed',
+  timestamp: 0,
+  nodes: [
+    node('Fed', 0, { isInitial: true }),
+    node('Rates', 1),
+    node('Old Story', 1),
+    node('Query', 2, { isManual: true }),
+    node('Query Child', 3),
+    node('Note', 2, { isManual: true }),
+  ],
+  edges: [
+    edge('Fed', 'Rates'),
+    edge('Fed', 'Old Story'),
+    edge('Rates', 'Query'),
+    edge('Query', 'Query Child'),
+    edge('Old Story', 'Note', { isManual: true }),
+  ],
+};
+
+const labelsOf = (map: HistoryItem) => map.nodes.map(n => n.label).sort();
+const linksOf = (map: HistoryItem) => {
+  const byId = new Map(map.nodes.map(n => [n.id, n.label]));
+  return map.edges.map(e => `${byId.get(e.source)}->${byId.get(e.target)}`).sort();
+};
+
+test('re-runs every expansion and keeps the user\'s own nodes under their fresh parents', async () => {
+  const fresh: Record<string, TrendKeyword[]> = {
+    Fed: trends('Rates', 'New Story'),
+    Rates: trends(),
+    Query: trends('Fresh Query Child'),
+  };
+  const progress: RefreshProgress[] = [];
+  const refreshed = await refreshMap(item, { fetchTrends: async query => fresh[query] ?? [], onProgress: p => progress.push(p) });
+
+  assert.equal(refreshed.previousVersionId, 'v1');
+  assert.equal(refreshed.version, 2);
+  assert.deepEqual(labelsOf(refreshed), ['Fed', 'Fresh Query Child', 'New Story', 'Note', 'Query', 'Rates']);
+  assert.deepEqual(linksOf(refreshed), ['Fed->New Story', 'Fed->Rates', 'Query->Fresh Query Child', 'Rates->Query']);
+  assert.deepEqual(progress.at(-1), { done: 4, total: 4, failed: 0 });
+});
+
+test('fails only when every expansion it could run failed', async t => {
+  t.mock.method(console, 'error', () => {});
+  const someFail = await refreshMap(item, {
+    fetchTrends: async query => {
+      if (query === 'Query') throw new TrendFetchError('server', 'Unavailable');
+      return trends('Rates');
+    },
+  });
+  assert.ok(someFail.nodes.some(n => n.label === 'Query'));
+
+  await assert.rejects(
+    refreshMap(item, { fetchTrends: async () => { throw new TrendFetchError('auth', 'API key not valid'); } }),
+    { kind: 'auth' },
+  );
+});
+
+test('stops at the first expansion after it is aborted', async () => {
+  const controller = new AbortController();
+  const queries: string[] = [];
+  const refresh = refreshMap(item, {
+    fetchTrends: async query => {
+      queries.push(query);
+      controller.abort();
+      return trends('Rates');
+    },
+    signal: controller.signal,
+  });
+  await assert.rejects(refresh, { kind: 'cancelled' });
+  assert.deepEqual(queries, ['Fed']);
+});
@@ -0,0 +1,93 @@
+import { HistoryItem, TrendNode, Edge, TrendKeyword } from '../types';
+import { buildChildIndex, createChildNode, edgeEndpointId } from './graphUtils';
+import { findMatchingNode, mergeExpansion, MatchOptions } from './nodeMatching';
+import { throwIfAborted, toTrendFetchError } from './trendErrors';
+
+export interface RefreshProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface RefreshOptions {
+  fetchTrends: (query: string) => Promise<TrendKeyword[]>;
+  onProgress?: (progress: RefreshProgress) => void;
+  matchOptions?: MatchOptions;
+  signal?: AbortSignal; // Aborting rejects with a 'cancelled' TrendFetchError instead of running the rest
+}
+
+export const asKeyword = (node: TrendNode): TrendKeyword => ({
+  keyword: node.label,
+  translation: node.translation,
+  weight: node.weight ?? 0,
+});
+
+// Nodes that have been expanded at least once, shallowest first
+export const expandedNodesOf = (item: HistoryItem): TrendNode[] => {
+  const children = buildChildIndex(item.nodes, item.edges);
+  return item.nodes.filter(n => children.has(n.id)).sort((a, b) => a.level - b.level);
+};
+
+// Re-runs every expansion of a saved session against fresh results and returns it as a new version.
+// Roots and nodes the user added (follow-up queries, hand-written children) are kept; deeper expanded
+// nodes are re-expanded only if they show up again in the fresh map.
+export const refreshMap = async (item: HistoryItem, { fetchTrends, onProgress, matchOptions, signal }: RefreshOptions): Promise<HistoryItem> => {
+  const children = buildChildIndex(item.nodes, item.edges);
+  const hasParent = new Set([...children.values()].flat().map(n => n.id));
+  const kept = item.nodes.filter(n => n.isInitial || n.isManual || !hasParent.has(n.id));
+  let nodes: TrendNode[] = kept.map(({ vx, vy, fx, fy, expansion, ...n }) => ({ ...n }));
+  let edges: Edge[] = [];
+
+  const expanded = expandedNodesOf(item);
+  const progress: RefreshProgress = { done: 0, total: expanded.length, failed: 0 };
+  onProgress?.({ ...progress });
+  let lastError: unknown = null;
+  let succeeded = 0;
+
+  for (const original of expanded) {
+    throwIfAborted(signal);
+    const counterpart = nodes.find(n => n.id === original.id) ?? findMatchingNode(asKeyword(original), nodes, matchOptions);
+    if (counterpart) {
+      try {
+        const trends = await fetchTrends(counterpart.label);
+        const merge = mergeExpansion(counterpart, trends, nodes, edges, (trend, i) => createChildNode(counterpart, trend, i, trends.length), matchOptions);
+        nodes = [...nodes.map(n => n.id === counterpart.id ? { ...n, expansion: { fetchedAt: Date.now(), fromCache: false } } : n), ...merge.newNodes];
+        edges = [...edges, ...merge.newEdges];
+        succeeded++;
+      } catch (error) {
+        if (toTrendFetchError(error).kind === 'cancelled') throw toTrendFetchError(error);
+        console.error(`Refresh of "${counterpart.label}" failed:`, error);
+        lastError = error;
+        progress.failed++;
+      }
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  // Expansions whose node did not come back are skipped, so they say nothing about whether the provider works
+  if (progress.failed > 0 && succeeded === 0) throw toTrendFetchError(lastError);
+
+  // Hang the user's nodes back under their parents, or under whatever stands for them in the fresh map
+  const originals = new Map(item.nodes.map(n => [n.id, n]));
+  const keptIds = new Set(kept.map(n => n.id));
+  item.edges.forEach(edge => {
+    const targetId = edgeEndpointId(edge.target);
+    const original = originals.get(edgeEndpointId(edge.source));
+    if (!keptIds.has(targetId) || !original) return;
+    const parent = nodes.find(n => n.id === original.id) ?? findMatchingNode(asKeyword(original), nodes, matchOptions);
+    if (!parent || parent.id === targetId || edges.some(e => edgeEndpointId(e.source) === parent.id && edgeEndpointId(e.target) === targetId)) return;
+    const { source, target, ...rest } = edge;
+    edges = [...edges, { ...rest, id: `e-${rest.isManual ? 'manual-' : ''}${parent.id}-${targetId}`, source: parent.id, target: targetId }];
+  });
+
+  return {
+    id: Date.now().toString(),
+    query: item.query,
+    timestamp: Date.now(),
+    nodes,
+    edges,
+    previousVersionId: item.id,
+    version: (item.version ?? 1) + 1,
+  };
+};
@@ -0,0 +1,56 @@
+import { TrendKeyword } from '../types';
+
+// Curated topics matched by substring against the normalized query (label or translation)
+export const TOPIC_FIXTURES: { match: string[]; trends: TrendKeyword[] }[] = [
+  {
+    match: ['ai', '人工智能', 'openai', 'sora', 'gpt'],
+    trends: [
+      { keyword: 'OpenAI Sora 发布', translation: 'OpenAI Sora Release', weight: 9, category: 'tech', sentiment: 0.5, entityType: 'product', relation: 'part_of', relationStrength: 0.8 },
+      { keyword: 'GPT-5 基准测试', translation: 'GPT-5 Benchmarks', weight: 8, category: 'tech', sentiment: 0.4, entityType: 'product', relation: 'follow_up', relationStrength: 0.7 },
+      { keyword: '欧盟人工智能法案生效', translation: 'EU AI Act Takes Effect', weight: 7, category: 'politics', sentiment: 0, entityType: 'event', relation: 'reaction_to', relationStrength: 0.6 },
+      { keyword: '英伟达财报', translation: 'Nvidia Earnings', weight: 6, category: 'finance', sentiment: 0.6, entityType: 'organization', relation: 'caused_by', relationStrength: 0.5 },
+      { keyword: 'AI 芯片出口管制', translation: 'AI Chip Export Controls', weight: 6, category: 'politics', sentiment: -0.4, entityType: 'event', relation: 'reaction_to', relationStrength: 0.5 },
+      { keyword: '开源大模型之争', translation: 'Open-Source LLM Race', weight: 4, category: 'tech', sentiment: 0.3, entityType: 'event', relation: 'competitor', relationStrength: 0.6 },
+      { keyword: 'AI 版权诉讼', translation: 'AI Copyright Lawsuits', weight: 3, category: 'tech', sentiment: -0.5, entityType: 'event', relation: 'reaction_to', relationStrength: 0.4 },
+    ],
+  },
+  {
+    match: ['climate', '气候', 'cop', 'weather', '天气'],
+    trends: [
+      { keyword: 'COP 气候峰会谈判', translation: 'COP Climate Summit Talks', weight: 8, category: 'environment', sentiment: 0, entityType: 'event', relation: 'part_of', relationStrength: 0.9 },
+      { keyword: '欧洲热浪预警', translation: 'European Heatwave Warning', weight: 9, category: 'environment', sentiment: -0.7, entityType: 'event', relation: 'same_event', relationStrength: 0.7 },
+      { keyword: '碳排放交易价格', translation: 'Carbon Credit Prices', weight: 5, category: 'finance', sentiment: 0, entityType: 'product', relation: 'caused_by', relationStrength: 0.5 },
+      { keyword: '北极海冰新低', translation: 'Arctic Sea Ice Record Low', weight: 6, category: 'science', sentiment: -0.6, entityType: 'event', relation: 'same_event', relationStrength: 0.6 },
+      { keyword: '可再生能源补贴', translation: 'Renewable Energy Subsidies', weight: 4, category: 'politics', sentiment: 0.4, entityType: 'event', relation: 'reaction_to', relationStrength: 0.4 },
+      { keyword: '台风登陆', translation: 'Typhoon Landfall', weight: 10, category: 'world', sentiment: -0.9, entityType: 'event', relation: 'related', relationStrength: 0.3 },
+    ],
+  },
+  {
+    match: ['market', 'stock', '股市', '经济', 'economy', 'fed', '美联储'],
+    trends: [
+      { keyword: '美联储利率决议', translation: 'Fed Rate Decision', weight: 9, category: 'finance', sentiment: 0, entityType: 'organization', relation: 'part_of', relationStrength: 0.9 },
+      { keyword: '美股科技股回调', translation: 'US Tech Stock Pullback', weight: 7, category: 'finance', sentiment: -0.5, entityType: 'event', relation: 'reaction_to', relationStrength: 0.8 },
+      { keyword: '人民币汇率波动', translation: 'Yuan Exchange Rate Swings', weight: 6, category: 'finance', sentiment: -0.2, entityType: 'event', relation: 'caused_by', relationStrength: 0.6 },
+      { keyword: '原油价格上涨', translation: 'Oil Price Rally', weight: 5, category: 'finance', sentiment: 0.3, entityType: 'product', relation: 'related', relationStrength: 0.4 },
+      { keyword: '通胀数据公布', translation: 'Inflation Data Release', weight: 8, category: 'finance', sentiment: -0.1, entityType: 'event', relation: 'follow_up', relationStrength: 0.7 },
+      { keyword: '比特币创新高', translation: 'Bitcoin All-Time High', weight: 4, category: 'finance', sentiment: 0.8, entityType: 'product', relation: 'competitor', relationStrength: 0.3 },
+    ],
+  },
+];
+
+// Generic angles used to synthesize stable results for queries without a curated topic.
+// They carry no category; tone, entity type and relation follow from the angle itself.
+export const GENERIC_ANGLES: Pick<TrendKeyword, 'keyword' | 'translation' | 'sentiment' | 'entityType' | 'relation' | 'relationStrength'>[] = [
+  { keyword: '{q} 最新进展', translation: '{q} Latest Developments', sentiment: 0, entityType: 'event', relation: 'follow_up', relationStrength: 0.9 },
+  { keyword: '{q} 官方回应', translation: '{q} Official Response', sentiment: 0, entityType: 'organization', relation: 'reaction_to', relationStrength: 0.8 },
+  { keyword: '{q} 市场反应', translation: '{q} Market Reaction', sentiment: -0.2, entityType: 'event', relation: 'reaction_to', relationStrength: 0.6 },
+  { keyword: '{q} 专家解读', translation: '{q} Expert Analysis', sentiment: 0, entityType: 'person', relation: 'related', relationStrength: 0.5 },
+  { keyword: '{q} 社交媒体热议', translation: '{q} Social Media Buzz', sentiment: 0.3, entityType: 'event', relation: 'reaction_to', relationStrength: 0.4 },
+  { keyword: '{q} 政策影响', translation: '{q} Policy Impact', sentiment: -0.1, entityType: 'event', relation: 'caused_by', relationStrength: 0.6 },
+  { keyword: '{q} 国际反响', translation: '{q} Global Reaction', sentiment: 0, entityType: 'event', relation: 'reaction_to', relationStrength: 0.5 },
+  { keyword: '{q} 争议升级', translation: '{q} Controversy Escalates', sentiment: -0.7, entityType: 'event', relation: 'follow_up', relationStrength: 0.7 },
+  { keyword: '{q} 幕后故事', translation: '{q} Behind the Scenes', sentiment: 0.2, entityType: 'person', relation: 'part_of', relationStrength: 0.4 },
+  { keyword: '{q} 未来走向', translation: '{q} What Comes Next', sentiment: 0, entityType: 'event', relation: 'follow_up', relationStrength: 0.3 },
+];
+
+export const MOCK_PUBLISHERS = ['Example Wire', 'Demo Daily', 'Sample Times', 'Fixture News Network'];
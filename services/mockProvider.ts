@@ -0,0 +1,153 @@
+import { TrendKeyword, TrendSource, BriefingReport, BriefingConnection } from '../types';
+import { ExpansionSettings, MockSettings } from './settings';
+import { TrendProvider } from './trendProvider';
+import { TrendFetchError, throwIfAborted } from './trendErrors';
+import { TOPIC_FIXTURES, GENERIC_ANGLES, MOCK_PUBLISHERS } from './mockFixtures';
+import { BriefingRequest } from './briefing';
+
+// FNV-1a: a stable seed so the same query always yields the same fixture set
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG seeded from the query hash
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Placeholder articles on example.com; fresher (heavier) trends get more recent publish times
+const buildMockSources = (trend: TrendKeyword): TrendSource[] => {
+  const random = createRandom(hashString(trend.keyword));
+  const count = 1 + Math.floor(random() * 3);
+  const slug = encodeURIComponent(trend.translation.toLowerCase().replace(/\s+/g, '-'));
+  return Array.from({ length: count }, (_, i) => {
+    const hoursAgo = (11 - trend.weight) * 4 + Math.floor(random() * 4);
+    return {
+      title: i === 0 ? trend.translation : `${trend.translation}: what we know`,
+      url: `https://example.com/news/${slug}-${i + 1}`,
+      publisher: MOCK_PUBLISHERS[Math.floor(random() * MOCK_PUBLISHERS.length)],
+      publishedAt: new Date(Date.now() - hoursAgo * 3600_000).toISOString(),
+    };
+  });
+};
+
+export const getMockTrends = (query: string): TrendKeyword[] => {
+  const normalized = query.trim().toLowerCase();
+  const topic = TOPIC_FIXTURES.find(t => t.match.some(m => normalized.includes(m)));
+  if (topic) return topic.trends.map(t => ({ ...t, sources: buildMockSources(t) }));
+
+  const random = createRandom(hashString(normalized));
+  const angles = [...GENERIC_ANGLES];
+  for (let i = angles.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [angles[i], angles[j]] = [angles[j], angles[i]];
+  }
+  const count = 6 + Math.floor(random() * 3);
+  return angles.slice(0, count).map(angle => {
+    const trend = {
+      keyword: angle.keyword.replace('{q}', query.trim()),
+      translation: angle.translation.replace('{q}', query.trim()),
+      weight: 1 + Math.floor(random() * 10),
+      sentiment: angle.sentiment,
+      entityType: angle.entityType,
+      relation: angle.relation,
+      relationStrength: angle.relationStrength,
+    };
+    return { ...trend, sources: buildMockSources(trend) };
+  });
+};
+
+// Fixtures are written as Chinese keyword / English translation; flip them when the pair is reversed
+const applyLanguagePair = (trends: TrendKeyword[], { primaryLanguage, secondaryLanguage, maxResults }: ExpansionSettings) => {
+  const swapped = primaryLanguage === 'en' && secondaryLanguage.startsWith('zh');
+  return trends
+    .slice(0, maxResults)
+    .map(t => swapped ? { ...t, keyword: t.translation, translation: t.keyword } : t);
+};
+
+const findFixtureTranslation = (text: string, { secondaryLanguage }: ExpansionSettings) => {
+  const normalized = text.trim().toLowerCase();
+  for (const topic of TOPIC_FIXTURES) {
+    const trend = topic.trends.find(t => t.keyword.toLowerCase() === normalized || t.translation.toLowerCase() === normalized);
+    if (trend) return secondaryLanguage === 'en' ? trend.translation : trend.keyword;
+  }
+  return text;
+};
+
+// Stories that share an ancestor are connected through the nearest one they have in common
+const findMockConnections = ({ stories }: BriefingRequest): BriefingConnection[] => {
+  const connections: BriefingConnection[] = [];
+  for (let i = 0; i < stories.length; i++) {
+    for (let j = i + 1; j < stories.length; j++) {
+      const shared = stories[i].path.filter(label => stories[j].path.includes(label)).pop();
+      if (!shared) continue;
+      connections.push({
+        between: [stories[i].label, stories[j].label],
+        description: `Both developed from "${shared}".`,
+      });
+    }
+  }
+  return connections;
+};
+
+// Canned report built from the request itself; timeline dates follow the same recency rule as mock sources
+export const getMockBriefing = (request: BriefingRequest): BriefingReport => {
+  const { stories } = request;
+  const byRecency = [...stories].sort((a, b) => (a.weight ?? 0) - (b.weight ?? 0));
+  return {
+    headline: stories.length === 1
+      ? `${stories[0].translation || stories[0].label} in focus`
+      : `${stories.length} linked stories, led by ${(byRecency[byRecency.length - 1].translation || byRecency[byRecency.length - 1].label)}`,
+    stories: stories.map(story => ({
+      nodeId: story.nodeId,
+      title: story.translation || story.label,
+      summary: [
+        story.path.length > 0 ? `Surfaced while exploring ${story.path.join(' → ')}.` : 'The root topic of this map.',
+        story.weight !== undefined ? `Recency weight ${story.weight}/10.` : null,
+        story.sources.length > 0 ? `Coverage includes ${story.sources.join('; ')}.` : null,
+      ].filter(Boolean).join(' '),
+    })),
+    connections: findMockConnections(request),
+    timeline: byRecency.map(story => ({
+      date: new Date(Date.now() - (11 - (story.weight ?? 5)) * 4 * 3600_000).toISOString().slice(0, 10),
+      event: story.translation || story.label,
+    })),
+  };
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = ({ latencyMs, failureRate }: MockSettings): TrendProvider => ({
+  id: 'mock',
+  name: 'Offline fixtures',
+  // The first result takes half the latency and the rest trickle in over the other half, like a streamed answer
+  fetchTrends: async (query, expansion, { onTrend, signal } = {}) => {
+    await delay(latencyMs / 2);
+    throwIfAborted(signal);
+    if (Math.random() < failureRate) throw new TrendFetchError('network', "Simulated network failure");
+    const trends = applyLanguagePair(getMockTrends(query), expansion);
+    for (const trend of trends) {
+      await delay(latencyMs / 2 / trends.length);
+      throwIfAborted(signal);
+      onTrend?.(trend);
+    }
+    return trends;
+  },
+  translate: async (text, expansion) => {
+    await delay(latencyMs / 2);
+    return findFixtureTranslation(text, expansion);
+  },
+  generateBriefing: async request => {
+    await delay(latencyMs * 2);
+    if (Math.random() < failureRate) throw new TrendFetchError('network', "Simulated network failure");
+    return getMockBriefing(request);
+  },
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrendKeyword, TrendNode, Edge } from '../types';
+import { findMatchingNode, mergeExpansion, normalizeLabel } from './nodeMatching';
+
+const node = (id: string, label: string, translation = ''): TrendNode => ({ id, label, translation, x: 0, y: 0, level: 1, isSelected: false });
+const trend = (keyword: string, translation = ''): TrendKeyword => ({ keyword, translation, weight: 5 });
+
+test('labels match regardless of case, width and punctuation', () => {
+  assert.equal(normalizeLabel('ＯｐｅｎＡＩ: Sora!'), normalizeLabel('openai sora'));
+  const nodes = [node('a', 'Fed Rate Decision'), node('b', '美联储利率决议', 'Fed rate decision')];
+  assert.equal(findMatchingNode(trend('fed rate-decision'), nodes)?.id, 'a');
+  assert.equal(findMatchingNode(trend('FOMC', '美联储 利率决议'), nodes)?.id, 'b');
+});
+
+test('a trend matches the most similar node above the threshold, and nothing below it', () => {
+  const nodes = [node('a', 'OpenAI Sora Release'), node('b', 'Sora Pricing')];
+  assert.equal(findMatchingNode(trend('Sora Release'), nodes)?.id, 'a');
+  assert.equal(findMatchingNode(trend('Sora Release'), nodes, { threshold: 1.01 }), undefined);
+  assert.equal(findMatchingNode(trend('Sora'), nodes), undefined, 'single words are too weak to match on overlap');
+  assert.equal(findMatchingNode(trend('x'), nodes, { similarity: (_t, n) => (n.id === 'b' ? 0.9 : 0) })?.id, 'b');
+});
+
+test('merging links trends to existing nodes and only creates the rest', () => {
+  const parent = node('p', 'Fed');
+  const existing = node('e', 'Bond Yields Climb');
+  const linked = node('l', 'Dollar Rally');
+  const edges: Edge[] = [{ id: 'e-p-l', source: 'p', target: 'l' }];
+  const trends = [trend('fed'), trend('bond yields climb'), trend('Dollar Rally'), trend('Mortgage Rates'), trend('mortgage rates')];
+
+  const merge = mergeExpansion(parent, trends, [parent, existing, linked], edges, (t, i) => node(`new-${i}`, t.keyword));
+
+  assert.deepEqual(merge.matchedNodes.map(n => n.id), ['e']);
+  assert.deepEqual(merge.newNodes.map(n => n.label), ['Mortgage Rates']);
+  assert.deepEqual(merge.newEdges.map(e => `${e.source}->${e.target}`), ['p->e', 'p->new-3']);
+});
+
+test('merged edges carry the relation the provider gave', () => {
+  const parent = node('p', 'Fed');
+  const merge = mergeExpansion(parent, [{ ...trend('Bond Yields'), relation: 'reaction_to', relationStrength: 0.7 }], [parent], [], (t) => node('c', t.keyword));
+  assert.equal(merge.newEdges[0].relation, 'reaction_to');
+  assert.equal(merge.newEdges[0].strength, 0.7);
+});
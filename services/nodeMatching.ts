@@ -0,0 +1,117 @@
+import { TrendKeyword, TrendNode, Edge } from '../types';
+import { edgeEndpointId } from './graphUtils';
+
+// Scores how likely an incoming trend describes the same story as an existing node (0-1)
+export type SimilarityFn = (trend: TrendKeyword, node: TrendNode) => number;
+
+export interface MatchOptions {
+  similarity?: SimilarityFn;
+  threshold?: number;
+}
+
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// Case-, width- and punctuation-insensitive form used for exact matching
+export const normalizeLabel = (value: string) =>
+  value.normalize('NFKC').toLowerCase().replace(/[\p{P}\p{S}\s]+/gu, '');
+
+// Latin text splits on word boundaries; CJK runs become character bigrams since they have no spaces
+const tokenize = (value: string): Set<string> => {
+  const tokens = new Set<string>();
+  value.normalize('NFKC').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).forEach(word => {
+    if (!CJK_PATTERN.test(word)) {
+      tokens.add(word);
+      return;
+    }
+    const chars = [...word];
+    if (chars.length === 1) tokens.add(word);
+    for (let i = 0; i < chars.length - 1; i++) tokens.add(chars[i] + chars[i + 1]);
+  });
+  return tokens;
+};
+
+// Overlap coefficient (shared / smaller set): "Sora Release" fully overlaps "OpenAI Sora Release"
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size < 2 || b.size < 2) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / Math.min(a.size, b.size);
+};
+
+export const tokenOverlapSimilarity: SimilarityFn = (trend, node) => Math.max(
+  overlap(tokenize(trend.translation || ''), tokenize(node.translation || '')),
+  overlap(tokenize(trend.keyword), tokenize(node.label)),
+);
+
+export const findMatchingNode = (trend: TrendKeyword, candidates: TrendNode[], options: MatchOptions = {}): TrendNode | undefined => {
+  const { similarity = tokenOverlapSimilarity, threshold = DEFAULT_MATCH_THRESHOLD } = options;
+  const keyword = normalizeLabel(trend.keyword);
+  const translation = trend.translation ? normalizeLabel(trend.translation) : '';
+
+  const byLabel = candidates.find(n => normalizeLabel(n.label) === keyword || (n.translation && normalizeLabel(n.translation) === keyword));
+  if (byLabel) return byLabel;
+
+  if (translation) {
+    const byTranslation = candidates.find(n => (n.translation && normalizeLabel(n.translation) === translation) || normalizeLabel(n.label) === translation);
+    if (byTranslation) return byTranslation;
+  }
+
+  let best: TrendNode | undefined;
+  let bestScore = threshold;
+  candidates.forEach(n => {
+    const score = similarity(trend, n);
+    if (score >= bestScore) {
+      best = n;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export interface ExpansionMerge {
+  newNodes: TrendNode[];
+  newEdges: Edge[];
+  matchedNodes: TrendNode[]; // Existing nodes that were linked instead of duplicated
+}
+
+// Turns expansion results into graph additions, linking to existing nodes when a trend is already on the canvas
+export const mergeExpansion = (
+  parent: TrendNode,
+  trends: TrendKeyword[],
+  nodes: TrendNode[],
+  edges: Edge[],
+  createNode: (trend: TrendKeyword, index: number) => TrendNode,
+  options: MatchOptions = {},
+): ExpansionMerge => {
+  const linked = new Set(edges.flatMap(e => {
+    const s = edgeEndpointId(e.source);
+    const t = edgeEndpointId(e.target);
+    return [`${s}|${t}`, `${t}|${s}`];
+  }));
+  const candidates = nodes.filter(n => n.id !== parent.id);
+  const result: ExpansionMerge = { newNodes: [], newEdges: [], matchedNodes: [] };
+
+  trends.forEach((trend, i) => {
+    if (findMatchingNode(trend, [parent], options)) return;
+
+    const existing = findMatchingNode(trend, candidates, options);
+    const target = existing ?? createNode(trend, i);
+    if (linked.has(`${parent.id}|${target.id}`)) return;
+
+    if (existing) {
+      result.matchedNodes.push(existing);
+    } else {
+      result.newNodes.push(target);
+      candidates.push(target);
+    }
+    linked.add(`${parent.id}|${target.id}`).add(`${target.id}|${parent.id}`);
+    result.newEdges.push({
+      id: `e-${parent.id}-${target.id}`, source: parent.id, target: target.id,
+      relation: trend.relation, strength: trend.relationStrength,
+    });
+  });
+
+  return result;
+};
@@ -0,0 +1,18 @@
+import { TrendNode } from '../types';
+
+// Weight at which a node gets the red "breaking news" treatment
+export const BREAKING_WEIGHT = 8;
+// Weight at which a node shows the pulsing NEW badge
+export const NEW_BADGE_WEIGHT = 9;
+
+export const isLargeNode = (node: TrendNode) => !!(node.isInitial || node.isSelected);
+
+export const isBreakingNode = (node: TrendNode) => !!node.weight && node.weight >= BREAKING_WEIGHT;
+
+export const hasNewBadge = (node: TrendNode) => !!node.weight && node.weight >= NEW_BADGE_WEIGHT && !isLargeNode(node);
+
+// Diameter in world units: initial/selected nodes are fixed, others scale with weight around 115px
+export const getNodeSize = (node: TrendNode) => {
+  const weightAdjustment = node.weight ? (node.weight - 5) * 6 : 0;
+  return isLargeNode(node) ? 140 : (115 + weightAdjustment);
+};
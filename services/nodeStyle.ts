@@ -0,0 +1,51 @@
+import { TrendNode } from '../types';
+import { getNodeSize, isBreakingNode } from './nodeMetrics';
+
+// Shared by the SVG export and the canvas renderer so both match the DOM node look
+export const EDGE_COLOR = '#d6b45a';
+export const FLOWING_EDGE_COLOR = '#fbbf24';
+export const ARROW_LENGTH = 9;
+export const ARROW_HALF_WIDTH = 4.5;
+
+// From the parent's centre to the rim of the child, where the arrowhead's tip sits
+export const edgeLine = (source: TrendNode, target: TrendNode) => {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.hypot(dx, dy);
+  const ratio = length === 0 ? 0 : Math.max(0, length - getNodeSize(target) / 2) / length;
+  return { x1: source.x, y1: source.y, x2: source.x + dx * ratio, y2: source.y + dy * ratio };
+};
+
+// Rough glyph widths so labels wrap like the DOM nodes (CJK glyphs are about square)
+const estimateTextWidth = (text: string, fontSize: number) =>
+  [...text].reduce((w, ch) => w + (/[\u3000-\u9fff\uff00-\uffef]/.test(ch) ? fontSize : fontSize * 0.58), 0);
+
+export const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines: number): string[] => {
+  const tokens = text.match(/[\u3000-\u9fff\uff00-\uffef]|[^\s\u3000-\u9fff\uff00-\uffef]+|\s+/g) ?? [];
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    const candidate = current + token;
+    if (current && estimateTextWidth(candidate.trim(), fontSize) > maxWidth) {
+      lines.push(current.trim());
+      current = token.trimStart();
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.trim()) lines.push(current.trim());
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/.$/, '')}…`;
+    return kept;
+  }
+  return lines;
+};
+
+// Mirrors the Tailwind state styles in components/Node.tsx
+export const nodeColors = (node: TrendNode) => {
+  if (node.isSelected) return { fill: 'rgba(250, 204, 21, 0.3)', stroke: '#facc15', strokeWidth: 2 };
+  if (node.isInitial) return { fill: 'rgba(255, 255, 255, 0.6)', stroke: '#000000', strokeWidth: 2 };
+  if (isBreakingNode(node)) return { fill: 'rgba(254, 242, 242, 0.6)', stroke: '#fecaca', strokeWidth: 1 };
+  return { fill: 'rgba(255, 255, 255, 0.4)', stroke: 'rgba(0, 0, 0, 0.1)', strokeWidth: 1 };
+};
@@ -0,0 +1,63 @@
+import { TrendNode, TrendCategory, EntityType } from '../types';
+
+export type SentimentBucket = 'negative' | 'neutral' | 'positive';
+
+// Hex colors so the canvas renderer can use them as well as the DOM nodes
+export const CATEGORY_OPTIONS: { id: TrendCategory; label: string; color: string }[] = [
+  { id: 'politics', label: 'Politics', color: '#6366f1' },
+  { id: 'tech', label: 'Tech', color: '#0ea5e9' },
+  { id: 'finance', label: 'Finance', color: '#10b981' },
+  { id: 'business', label: 'Business', color: '#0d9488' },
+  { id: 'science', label: 'Science', color: '#8b5cf6' },
+  { id: 'health', label: 'Health', color: '#ec4899' },
+  { id: 'environment', label: 'Environment', color: '#84cc16' },
+  { id: 'sports', label: 'Sports', color: '#f97316' },
+  { id: 'entertainment', label: 'Entertainment', color: '#f43f5e' },
+  { id: 'world', label: 'World', color: '#64748b' },
+  { id: 'other', label: 'Other', color: '#a3a3a3' },
+];
+
+export const ENTITY_TYPE_OPTIONS: { id: EntityType; label: string; icon: string }[] = [
+  { id: 'person', label: 'Person', icon: '👤' },
+  { id: 'organization', label: 'Organization', icon: '🏢' },
+  { id: 'event', label: 'Event', icon: '📅' },
+  { id: 'product', label: 'Product', icon: '📦' },
+];
+
+export const SENTIMENT_OPTIONS: { id: SentimentBucket; label: string; color: string }[] = [
+  { id: 'negative', label: 'Negative', color: '#ef4444' },
+  { id: 'neutral', label: 'Neutral', color: '#9ca3af' },
+  { id: 'positive', label: 'Positive', color: '#22c55e' },
+];
+
+// Scores within this distance of 0 read as neutral
+const NEUTRAL_BAND = 0.2;
+
+export const sentimentBucket = (sentiment?: number): SentimentBucket | undefined => {
+  if (sentiment === undefined) return undefined;
+  if (sentiment <= -NEUTRAL_BAND) return 'negative';
+  return sentiment >= NEUTRAL_BAND ? 'positive' : 'neutral';
+};
+
+export const categoryOption = (node: TrendNode) => CATEGORY_OPTIONS.find(o => o.id === node.category);
+export const entityTypeOption = (node: TrendNode) => ENTITY_TYPE_OPTIONS.find(o => o.id === node.entityType);
+export const sentimentOption = (node: TrendNode) => SENTIMENT_OPTIONS.find(o => o.id === sentimentBucket(node.sentiment));
+
+// Tolerant readers for provider output: unknown values are dropped rather than rejected
+export const parseCategory = (value: unknown): TrendCategory | undefined =>
+  typeof value === 'string' ? CATEGORY_OPTIONS.find(o => o.id === value.trim().toLowerCase())?.id : undefined;
+
+export const parseEntityType = (value: unknown): EntityType | undefined =>
+  typeof value === 'string' ? ENTITY_TYPE_OPTIONS.find(o => o.id === value.trim().toLowerCase())?.id : undefined;
+
+export const parseSentiment = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const sentiment = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(sentiment) ? Math.round(Math.min(1, Math.max(-1, sentiment)) * 100) / 100 : undefined;
+};
+
+export const describeTaxonomy = (node: TrendNode) => [
+  categoryOption(node)?.label,
+  entityTypeOption(node)?.label.toLowerCase(),
+  sentimentOption(node) ? `${sentimentOption(node)!.label.toLowerCase()} sentiment` : null,
+].filter(Boolean).join(', ');
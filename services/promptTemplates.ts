@@ -0,0 +1,118 @@
+import { ExpansionSettings } from './settings';
+
+export const LANGUAGE_OPTIONS: { code: string; name: string }[] = [
+  { code: 'zh-CN', name: 'Chinese (Simplified)' },
+  { code: 'zh-TW', name: 'Chinese (Traditional)' },
+  { code: 'en', name: 'English' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ar', name: 'Arabic' },
+];
+
+export const languageName = (code: string) =>
+  LANGUAGE_OPTIONS.find(l => l.code === code)?.name ?? code;
+
+// Identifies the keyword > translation pair, e.g. for cache keys
+export const languageKey = ({ primaryLanguage, secondaryLanguage }: ExpansionSettings) =>
+  `${primaryLanguage}>${secondaryLanguage}`;
+
+// Short stable digest so a whole prompt template can be part of a key
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+// Every expansion setting that changes what the provider returns, e.g. for cache keys
+export const expansionKey = (expansion: ExpansionSettings) =>
+  [languageKey(expansion), `${expansion.minResults}-${expansion.maxResults}`, `${expansion.recencyHours}h`, hashText(expansion.promptTemplate)].join('|');
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'query', description: 'The node label being expanded or translated' },
+  { name: 'count', description: 'Requested result count, e.g. "7-8"' },
+  { name: 'recencyHours', description: 'Recency window in hours' },
+  { name: 'primaryLanguage', description: 'Language of the keywords' },
+  { name: 'secondaryLanguage', description: 'Language of the translations' },
+];
+
+export const MAX_TEMPLATE_LENGTH = 2000;
+
+export type TemplateField = 'promptTemplate' | 'translationTemplate';
+
+// A custom template has to keep these, so it stays a prompt for this task rather than a free-form one
+const REQUIRED_VARIABLES: Record<TemplateField, string[]> = {
+  promptTemplate: ['query', 'count'],
+  translationTemplate: ['query', 'secondaryLanguage'],
+};
+
+// Why the server would refuse a custom template, or null when it is usable; empty means the default
+export const templateProblem = (field: TemplateField, template: string): string | null => {
+  if (!template) return null;
+  if (template.length > MAX_TEMPLATE_LENGTH) return `Keep the prompt under ${MAX_TEMPLATE_LENGTH} characters.`;
+  const used = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]);
+  const unknown = used.find(name => !TEMPLATE_VARIABLES.some(v => v.name === name));
+  if (unknown) return `{{${unknown}}} is not a known placeholder.`;
+  const missing = REQUIRED_VARIABLES[field].filter(name => !used.includes(name));
+  return missing.length > 0 ? `The prompt has to contain ${missing.map(name => `{{${name}}}`).join(' and ')}.` : null;
+};
+
+export const DEFAULT_EXPANSION_TEMPLATE = `Search for {{count}} of the MOST RECENT and BREAKING news trend keywords related to "{{query}}" using Google Search.
+Prioritize news that happened in the last {{recencyHours}} hours.
+Return the results as a JSON array of objects.
+For each object:
+- "keyword": The specific news trend keyword in {{primaryLanguage}} (e.g., instead of just "AI", use "OpenAI Sora Release").
+- "translation": The original {{secondaryLanguage}} term or exact translation into {{secondaryLanguage}}.
+- "weight": An integer from 1 to 10, where 10 is "breaking news in the last hour" and 1 is "a general ongoing topic".
+- "category": One of politics, tech, finance, business, science, health, environment, sports, entertainment, world or other.
+- "sentiment": A number from -1 (clearly negative coverage) to 1 (clearly positive), 0 for neutral.
+- "entityType": What the keyword is mainly about: person, organization, event or product.
+- "relation": How the keyword relates to "{{query}}", read as "<keyword> is a … <query>": reaction_to, caused_by, same_event, follow_up, part_of, competitor or related.
+- "relationStrength": How directly the keyword follows from "{{query}}", from 0 (loosely) to 1 (directly).
+- "sources": Up to 3 news articles found via Google Search that report this trend, each with "title", "url", "publisher" and "publishedAt" (ISO 8601, if known).
+Make the keywords highly specific to current events.`;
+
+export const DEFAULT_TRANSLATION_TEMPLATE = `Translate the news topic "{{query}}" into {{secondaryLanguage}}.
+If it is already written in {{secondaryLanguage}}, return it unchanged.
+Reply with the translated topic only, without quotes or explanation.`;
+
+export const DEFAULT_BRIEFING_TEMPLATE = `You are a news analyst. Using Google Search for up-to-date facts, write a briefing on the following stories.
+Each story is listed with its path through the user's topic map, from the original search down to the story itself.
+
+{{stories}}
+
+Write the briefing in {{secondaryLanguage}} and return it as a JSON object with:
+- "headline": One sentence that captures the overall picture.
+- "stories": One entry per story above, in the same order, each with "nodeId" (the id given above), "title" and a 2-3 sentence "summary" of what happened and why it matters.
+- "connections": How the stories relate to each other, each with "between" (the story titles involved) and a one-sentence "description". Leave it empty if they are unrelated.
+- "timeline": The key dated events across all stories in chronological order, each with "date" (YYYY-MM-DD, plus time if known) and "event".`;
+
+export const formatResultCount = ({ minResults, maxResults }: ExpansionSettings) =>
+  minResults === maxResults ? `${minResults}` : `${minResults}-${maxResults}`;
+
+// Replaces {{name}} placeholders; unknown placeholders are left as-is so typos stay visible
+export const renderTemplate = (template: string, variables: Record<string, string | number>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+
+const templateVariables = (query: string, expansion: ExpansionSettings) => ({
+  query,
+  count: formatResultCount(expansion),
+  recencyHours: expansion.recencyHours,
+  primaryLanguage: languageName(expansion.primaryLanguage),
+  secondaryLanguage: languageName(expansion.secondaryLanguage),
+});
+
+export const buildExpansionPrompt = (query: string, expansion: ExpansionSettings) =>
+  renderTemplate(expansion.promptTemplate || DEFAULT_EXPANSION_TEMPLATE, templateVariables(query, expansion));
+
+export const buildTranslationPrompt = (query: string, expansion: ExpansionSettings) =>
+  renderTemplate(expansion.translationTemplate || DEFAULT_TRANSLATION_TEMPLATE, templateVariables(query, expansion));
+
+export const buildBriefingPrompt = (stories: string, expansion: ExpansionSettings) =>
+  renderTemplate(DEFAULT_BRIEFING_TEMPLATE, { stories, secondaryLanguage: languageName(expansion.secondaryLanguage) });
@@ -0,0 +1,106 @@
+import { TrendKeyword } from '../types';
+import { TrendProvider, TrendStreamOptions } from './trendProvider';
+import { ERROR_TITLES, TrendFetchError, kindForStatus, toTrendFetchError } from './trendErrors';
+import { parseTrendKeyword, validateTrendKeywords } from './trendValidation';
+import { validateBriefingReport } from './briefing';
+import {
+  TREND_API_PATHS,
+  NDJSON_CONTENT_TYPE,
+  TrendApiErrorBody,
+  TrendsRequestBody,
+  TrendsStreamLine,
+  TranslateRequestBody,
+  TranslateResponseBody,
+  BriefingRequestBody,
+  BriefingResponseBody,
+} from './trendApi';
+
+const isErrorBody = (value: unknown): value is TrendApiErrorBody => {
+  const error = (value as TrendApiErrorBody | null)?.error;
+  return typeof error?.message === 'string' && error.kind in ERROR_TITLES;
+};
+
+const toApiError = (payload: unknown, status: number) => {
+  if (!isErrorBody(payload)) {
+    return new TrendFetchError(kindForStatus(status), `The TrendNode server answered with status ${status}`, { status });
+  }
+  const { kind, message, retryAfter } = payload.error;
+  return new TrendFetchError(kind, message, { status, retryAfterMs: typeof retryAfter === 'number' ? retryAfter * 1000 : undefined });
+};
+
+const send = async <Body>(path: string, body: Body, signal?: AbortSignal): Promise<Response> => {
+  try {
+    return await fetch(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
+  } catch (error) {
+    const fetchError = toTrendFetchError(error);
+    if (fetchError.kind === 'cancelled') throw fetchError;
+    throw new TrendFetchError('network', "Could not reach the TrendNode server. Start it with npm run server, or switch to offline fixtures.", { cause: error });
+  }
+};
+
+// Errors come back with their original kind, so retries and error titles behave as if Gemini were called directly
+const post = async <Body, Result>(path: string, body: Body): Promise<Result> => {
+  const response = await send(path, body);
+  const payload: unknown = await response.json().catch(() => null);
+  if (!response.ok) throw toApiError(payload, response.status);
+  if (payload === null) throw new TrendFetchError('malformed', "The TrendNode server returned a response that is not valid JSON");
+  return payload as Result;
+};
+
+// Reads the NDJSON answer of /api/trends line by line as it arrives
+const streamTrends = async (body: TrendsRequestBody, { onTrend, signal }: TrendStreamOptions) => {
+  const response = await send(TREND_API_PATHS.trends, body, signal);
+  if (!response.ok || !response.body || !response.headers.get('Content-Type')?.startsWith(NDJSON_CONTENT_TYPE)) {
+    throw toApiError(await response.json().catch(() => null), response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  const handleLine = (text: string): TrendKeyword[] | null => {
+    if (!text.trim()) return null;
+    let line: TrendsStreamLine;
+    try {
+      line = JSON.parse(text);
+    } catch (error) {
+      throw new TrendFetchError('malformed', "The TrendNode server sent a line that is not valid JSON", { cause: error });
+    }
+    if ('error' in line) throw toApiError(line, 502);
+    if ('trends' in line) return validateTrendKeywords(line.trends);
+    const trend = parseTrendKeyword(line.trend);
+    if (trend) onTrend?.(trend);
+    return null;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += value ?? '';
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        const trends = handleLine(line);
+        if (trends) return trends;
+      }
+      if (done) throw new TrendFetchError('network', "The TrendNode server closed the connection before all results arrived");
+    }
+  } catch (error) {
+    throw toTrendFetchError(error);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+// Gemini through the TrendNode server (server/), which holds the API key; the browser never sees it
+export const createProxyProvider = (): TrendProvider => ({
+  id: 'gemini',
+  name: 'Google Gemini',
+  fetchTrends: (query, expansion, stream = {}) => streamTrends({ query, expansion }, stream),
+  translate: async (text, expansion) => {
+    const { translation } = await post<TranslateRequestBody, TranslateResponseBody>(TREND_API_PATHS.translate, { text, expansion });
+    return typeof translation === 'string' && translation ? translation : text;
+  },
+  generateBriefing: async (request, expansion) => {
+    const { report } = await post<BriefingRequestBody, BriefingResponseBody>(TREND_API_PATHS.briefing, { request, expansion });
+    return validateBriefingReport(report);
+  },
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRetry, RetryOptions } from './retry';
+import { TrendFetchError } from './trendErrors';
+
+// Millisecond delays keep the backoff real without slowing the suite down
+const fastRetries = (overrides: Partial<RetryOptions> = {}): RetryOptions => ({ retries: 3, baseDelayMs: 1, maxDelayMs: 20, ...overrides });
+
+test('retries transient failures with growing, capped delays until one succeeds', async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  const result = await withRetry(async () => {
+    calls++;
+    if (calls < 3) throw new TrendFetchError('server', 'Unavailable', { status: 503 });
+    return 'trends';
+  }, fastRetries({ baseDelayMs: 4, maxDelayMs: 6, onRetry: (_attempt, _error, delayMs) => delays.push(delayMs) }));
+
+  assert.equal(result, 'trends');
+  assert.equal(calls, 3);
+  assert.equal(delays.length, 2);
+  assert.ok(delays[0] >= 2 && delays[0] <= 4, `first delay ${delays[0]} is half to all of the base`);
+  assert.ok(delays[1] >= 3 && delays[1] <= 6, `second delay ${delays[1]} doubles but stays under the cap`);
+});
+
+test('gives up after the last retry with the typed error', async () => {
+  const attempts: number[] = [];
+  let calls = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      calls++;
+      throw new TypeError('Failed to fetch');
+    }, fastRetries({ retries: 2, onRetry: attempt => attempts.push(attempt) })),
+    (error: unknown) => error instanceof TrendFetchError && error.kind === 'network',
+  );
+  assert.equal(calls, 3);
+  assert.deepEqual(attempts, [1, 2]);
+});
+
+test('does not retry errors that another attempt cannot fix', async () => {
+  let calls = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      calls++;
+      throw new TrendFetchError('auth', 'API key not valid', { status: 401 });
+    }, fastRetries()),
+    { kind: 'auth' },
+  );
+  assert.equal(calls, 1);
+});
+
+test('waits at least as long as the server asked, within the longest allowed wait', async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  await withRetry(async () => {
+    calls++;
+    if (calls === 1) throw new TrendFetchError('rate_limit', 'Slow down', { status: 429, retryAfterMs: 15 });
+    if (calls === 2) throw new TrendFetchError('rate_limit', 'Slow down', { status: 429, retryAfterMs: 60_000 });
+    return null;
+  }, fastRetries({ onRetry: (_attempt, _error, delayMs) => delays.push(delayMs) }));
+
+  assert.equal(delays[0], 15);
+  assert.equal(delays[1], 20);
+});
@@ -0,0 +1,35 @@
+import { TrendFetchError, toTrendFetchError } from './trendErrors';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (attempt: number, error: TrendFetchError, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 800,
+  maxDelayMs: 10_000,
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter; only transient failures are retried
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = toTrendFetchError(err);
+      if (!error.retryable || attempt >= options.retries) throw error;
+      // Rate limits need more breathing room than a dropped connection
+      const base = error.kind === 'rate_limit' ? options.baseDelayMs * 2 : options.baseDelayMs;
+      const backoff = Math.min(options.maxDelayMs, base * 2 ** attempt) * (0.5 + Math.random() / 2);
+      // Never sooner than the server asked for, but still within the longest wait we allow
+      const wait = Math.min(options.maxDelayMs, Math.max(backoff, error.retryAfterMs ?? 0));
+      options.onRetry?.(attempt + 1, error, wait);
+      await delay(wait);
+    }
+  }
+};
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryItem, TrendNode } from '../types';
+import { serializeSession, parseSessionFile, MAX_SESSION_NODES, SESSION_FILE_FORMAT } from './sessionFile';
+
+const node = (id: string, level: number, extra: Partial<TrendNode> = {}): TrendNode => ({ id, label: id, translation: '', x: 10, y: 20, level, isSelected: false, ...extra });
+
+const item: HistoryItem = {
+  id: 'h1',
+  query: 'Fed',
+  timestamp: 1_700_000_000_000,
+  nodes: [
+    node('root', 0, { isInitial: true, weight: 10, category: 'finance', sentiment: -0.4, entityType: 'organization' }),
+    node('a', 1, { pinned: true, fx: 10, fy: 20, sources: [{ title: 'Story', url: 'https://news.example/a' }] }),
+  ],
+  edges: [{ id: 'e-root-a', source: 'root', target: 'a', relation: 'reaction_to', strength: 0.8 }],
+};
+
+const fileWith = (session: unknown, version = 1) => JSON.stringify({ format: SESSION_FILE_FORMAT, version, exportedAt: 0, session });
+
+test('a serialized session reads back as the same map', () => {
+  const parsed = parseSessionFile(serializeSession(item));
+  assert.deepEqual(JSON.parse(JSON.stringify(parsed)), JSON.parse(JSON.stringify(item)));
+});
+
+test('refuses files that are not readable sessions', () => {
+  assert.throws(() => parseSessionFile('{'), /not valid JSON/);
+  assert.throws(() => parseSessionFile(JSON.stringify({ format: 'other' })), /Not a TrendNode session file/);
+  assert.throws(() => parseSessionFile(fileWith(item, 99)), /Unsupported session file version/);
+  assert.throws(() => parseSessionFile(fileWith({ nodes: [] })), /missing its nodes or edges/);
+  assert.throws(() => parseSessionFile(fileWith({ nodes: [{ id: 'a', label: 'A', x: 'left', y: 0, level: 0 }], edges: [] })), /invalid position/);
+  assert.throws(() => parseSessionFile(fileWith({ nodes: [node('a', 0)], edges: [{ source: 'a', target: 'gone' }] })), /not in the file/);
+  const tooMany = Array.from({ length: MAX_SESSION_NODES + 1 }, (_, i) => node(`n${i}`, 1));
+  assert.throws(() => parseSessionFile(fileWith({ nodes: tooMany, edges: [] })), /limited to/);
+});
+
+test('drops values that would reach rendering or export unchecked', () => {
+  const parsed = parseSessionFile(fileWith({
+    nodes: [{
+      ...node('a', 0),
+      category: '"><script>',
+      sentiment: 7,
+      entityType: 'alien',
+      pinned: 'yes',
+      fx: 'NaN',
+      fy: null,
+      sources: [{ url: 'javascript:alert(1)' }, { url: 'https://ok.example' }],
+    }],
+    edges: [{ source: 'a', target: 'a', relation: 'friend', strength: '2' }],
+  }));
+  const [n] = parsed.nodes;
+  assert.equal(n.category, undefined);
+  assert.equal(n.sentiment, 1);
+  assert.equal(n.entityType, undefined);
+  assert.equal(n.pinned, undefined);
+  assert.equal(n.fx, undefined);
+  assert.equal(n.fy, null);
+  assert.deepEqual(n.sources?.map(s => s.url), ['https://ok.example']);
+  assert.equal(parsed.edges[0].relation, undefined);
+  assert.equal(parsed.edges[0].strength, 1);
+  assert.equal(parsed.edges[0].id, 'e-a-a');
+});
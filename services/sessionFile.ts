@@ -0,0 +1,121 @@
+import { HistoryItem, TrendNode, TrendSource, Edge } from '../types';
+import { snapshotHistoryItem } from './historyStore';
+import { toFileSlug } from './download';
+import { parseRelation, parseStrength } from './edgeRelations';
+import { parseCategory, parseEntityType, parseSentiment } from './nodeTaxonomy';
+import { parseSource } from './trendValidation';
+
+export const SESSION_FILE_FORMAT = 'trendnode-session';
+export const SESSION_FILE_VERSION = 1;
+// Well above what the canvas renderer handles; anything bigger is refused before the graph is built
+export const MAX_SESSION_NODES = 5000;
+export const MAX_SESSION_EDGES = 20000;
+
+interface SessionFile {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: HistoryItem;
+}
+
+export const serializeSession = (item: HistoryItem): string => {
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: Date.now(),
+    session: snapshotHistoryItem(item),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const sessionFileName = (item: HistoryItem) =>
+  `${toFileSlug(item.query)}-${new Date(item.timestamp).toISOString().slice(0, 10)}.trendnode.json`;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCoordinate = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const parseNode = (raw: unknown, index: number): TrendNode => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.label !== 'string') {
+    throw new Error(`Node #${index + 1} is missing an id or label`);
+  }
+  if (typeof raw.x !== 'number' || typeof raw.y !== 'number' || typeof raw.level !== 'number') {
+    throw new Error(`Node "${raw.label}" has an invalid position or level`);
+  }
+  return {
+    ...raw,
+    id: raw.id,
+    label: raw.label,
+    translation: typeof raw.translation === 'string' ? raw.translation : '',
+    x: raw.x,
+    y: raw.y,
+    level: raw.level,
+    isSelected: raw.isSelected === true,
+    isInitial: raw.isInitial === true ? true : undefined,
+    weight: typeof raw.weight === 'number' ? raw.weight : undefined,
+    // Files and share links come from anyone, so links and taxonomy are checked like provider output
+    sources: Array.isArray(raw.sources) ? raw.sources.map(parseSource).filter((s): s is TrendSource => !!s) : undefined,
+    category: parseCategory(raw.category),
+    sentiment: parseSentiment(raw.sentiment),
+    entityType: parseEntityType(raw.entityType),
+    isManual: raw.isManual === true ? true : undefined,
+    pinned: raw.pinned === true ? true : undefined,
+    fx: isCoordinate(raw.fx) ? raw.fx : undefined,
+    fy: isCoordinate(raw.fy) ? raw.fy : undefined,
+  };
+};
+
+const parseEdge = (raw: unknown, index: number, nodeIds: Set<string>): Edge => {
+  if (!isObject(raw) || typeof raw.source !== 'string' || typeof raw.target !== 'string') {
+    throw new Error(`Edge #${index + 1} is missing its endpoints`);
+  }
+  if (!nodeIds.has(raw.source) || !nodeIds.has(raw.target)) {
+    throw new Error(`Edge #${index + 1} points to a node that is not in the file`);
+  }
+  return {
+    ...raw,
+    id: typeof raw.id === 'string' ? raw.id : `e-${raw.source}-${raw.target}`,
+    source: raw.source,
+    target: raw.target,
+    relation: parseRelation(raw.relation),
+    strength: parseStrength(raw.strength),
+  };
+};
+
+// Validates an exported session file; throws with a user-facing message when it cannot be read
+export const parseSessionFile = (text: string): HistoryItem => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  if (!isObject(file) || file.format !== SESSION_FILE_FORMAT) {
+    throw new Error("Not a TrendNode session file");
+  }
+  if (typeof file.version !== 'number' || file.version > SESSION_FILE_VERSION) {
+    throw new Error(`Unsupported session file version: ${file.version}`);
+  }
+
+  const session = file.session;
+  if (!isObject(session) || !Array.isArray(session.nodes) || !Array.isArray(session.edges)) {
+    throw new Error("Session is missing its nodes or edges");
+  }
+  if (session.nodes.length > MAX_SESSION_NODES || session.edges.length > MAX_SESSION_EDGES) {
+    throw new Error(`Maps are limited to ${MAX_SESSION_NODES} nodes and ${MAX_SESSION_EDGES} edges`);
+  }
+  const nodes = session.nodes.map(parseNode);
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const edges = session.edges.map((edge: unknown, i: number) => parseEdge(edge, i, nodeIds));
+
+  return {
+    ...session,
+    id: typeof session.id === 'string' ? session.id : Date.now().toString(),
+    query: typeof session.query === 'string' ? session.query : (nodes[0]?.label ?? 'Imported map'),
+    timestamp: typeof session.timestamp === 'number' ? session.timestamp : Date.now(),
+    nodes,
+    edges,
+  };
+};
@@ -0,0 +1,102 @@
+import { AutoExpandOptions } from './autoExpand';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type RenderMode = 'auto' | 'dom' | 'canvas';
+
+export interface MockSettings {
+  latencyMs: number; // Simulated network delay so loading states stay visible offline
+  failureRate: number; // 0-1 chance of a simulated network error, for exercising retry and error states
+}
+
+export interface MatchingSettings {
+  threshold: number; // Similarity (0-1) above which an expansion result merges into an existing node
+}
+
+export interface ExpansionSettings {
+  primaryLanguage: string; // Language code of node labels
+  secondaryLanguage: string; // Language code of node translations
+  minResults: number;
+  maxResults: number;
+  recencyHours: number;
+  promptTemplate: string; // Empty means the built-in default
+  translationTemplate: string;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlMinutes: number;
+}
+
+export interface RenderingSettings {
+  mode: RenderMode;
+}
+
+export interface WatchlistSettings {
+  intervalMinutes: number; // How often each watched topic is re-fetched while the app is open
+  notifications: boolean; // Also raise a browser notification for breaking results
+}
+
+export interface AppSettings {
+  provider: ProviderId;
+  mock: MockSettings;
+  matching: MatchingSettings;
+  cache: CacheSettings;
+  expansion: ExpansionSettings;
+  rendering: RenderingSettings;
+  autoExpand: AutoExpandOptions;
+  watchlist: WatchlistSettings;
+}
+
+const STORAGE_KEY = 'trendnode.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  mock: { latencyMs: 600, failureRate: 0 },
+  matching: { threshold: 0.8 },
+  cache: { enabled: true, ttlMinutes: 30 },
+  expansion: {
+    primaryLanguage: 'zh-CN',
+    secondaryLanguage: 'en',
+    minResults: 7,
+    maxResults: 8,
+    recencyHours: 48,
+    promptTemplate: '',
+    translationTemplate: '',
+  },
+  rendering: { mode: 'auto' },
+  autoExpand: { depth: 2, concurrency: 2, budget: 20, minWeight: 6 },
+  watchlist: { intervalMinutes: 15, notifications: false },
+};
+
+// Stored settings are merged section by section so fields added later fall back to defaults
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      provider: stored.provider ?? DEFAULT_SETTINGS.provider,
+      mock: { ...DEFAULT_SETTINGS.mock, ...stored.mock },
+      matching: { ...DEFAULT_SETTINGS.matching, ...stored.matching },
+      cache: { ...DEFAULT_SETTINGS.cache, ...stored.cache },
+      expansion: { ...DEFAULT_SETTINGS.expansion, ...stored.expansion },
+      rendering: { ...DEFAULT_SETTINGS.rendering, ...stored.rendering },
+      autoExpand: { ...DEFAULT_SETTINGS.autoExpand, ...stored.autoExpand },
+      watchlist: { ...DEFAULT_SETTINGS.watchlist, ...stored.watchlist },
+    };
+  } catch (error) {
+    console.error("Failed to load settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+};
+
+export const cacheTtlMs = ({ cache }: AppSettings) => cache.enabled ? cache.ttlMinutes * 60_000 : 0;
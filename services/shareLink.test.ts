@@ -0,0 +1,54 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryItem } from '../types';
+import { createShareLink, parseShareLink, hasShareLink, MAX_SHARE_PAYLOAD_BYTES } from './shareLink';
+
+// The link is built from the page URL and the sender's viewport
+before(() => {
+  Object.assign(globalThis, {
+    window: { innerWidth: 1000, innerHeight: 800, location: { origin: 'https://trendnode.example', pathname: '/', search: '' } },
+  });
+});
+
+const item: HistoryItem = {
+  id: 'h1',
+  query: 'Fed',
+  timestamp: 1_700_000_000_000,
+  nodes: [
+    { id: 'root', label: 'Fed', translation: '美联储', x: 100.4, y: 200.6, level: 0, isSelected: false, isInitial: true, weight: 10 },
+    { id: 'a', label: 'Bond Yields', translation: '', x: 300, y: 200, level: 1, isSelected: false, weight: 7 },
+  ],
+  edges: [{ id: 'e-root-a', source: 'root', target: 'a', relation: 'reaction_to' }],
+  briefings: [],
+};
+
+const hashOf = (link: string) => link.slice(link.indexOf('#'));
+
+const deflate = async (text: string) =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+
+const toHash = (bytes: Uint8Array) => `#share=v1.${Buffer.from(bytes).toString('base64url')}`;
+
+test('a share link opens as the same map, at the sender\'s view', async () => {
+  const link = await createShareLink(item, { x: 50, y: -20, k: 2 });
+  assert.ok(link.startsWith('https://trendnode.example/#share=v1.'));
+  assert.ok(hasShareLink(hashOf(link)));
+
+  const { item: shared, view } = await parseShareLink(hashOf(link));
+  assert.deepEqual(shared.nodes.map(n => [n.label, n.translation, n.x, n.y]), [['Fed', '美联储', 100, 201], ['Bond Yields', '', 300, 200]]);
+  assert.deepEqual(shared.edges.map(e => [e.source, e.target, e.relation]), [['root', 'a', 'reaction_to']]);
+  assert.equal(shared.briefings, undefined, 'briefings stay with the sender');
+  assert.deepEqual(view, { x: 50, y: -20, k: 2 });
+});
+
+test('refuses damaged, newer and oversized links', async () => {
+  await assert.rejects(parseShareLink('#share=v1.'), /incomplete/);
+  await assert.rejects(parseShareLink('#share=v9.abc'), /newer version/);
+  await assert.rejects(parseShareLink(toHash(new Uint8Array([1, 2, 3, 4]))), /damaged/);
+  await assert.rejects(parseShareLink(toHash(await deflate('{"format": "something else"}'))), /Not a TrendNode session file/);
+
+  // A few kilobytes that would inflate to far more than a map can hold
+  const bomb = await deflate(' '.repeat(MAX_SHARE_PAYLOAD_BYTES + 1024));
+  assert.ok(bomb.length < 10_000);
+  await assert.rejects(parseShareLink(toHash(bomb)), /more data than TrendNode will open/);
+});
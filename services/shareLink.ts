@@ -0,0 +1,117 @@
+import { HistoryItem, TrendNode } from '../types';
+import { ViewTransform } from './graphRender';
+import { snapshotHistoryItem } from './historyStore';
+import { SESSION_FILE_FORMAT, SESSION_FILE_VERSION, parseSessionFile } from './sessionFile';
+import { centeredOn } from './camera';
+
+export const SHARE_LINK_VERSION = 1;
+const SHARE_HASH_PATTERN = /^#share=v(\d+)\.([A-Za-z0-9_-]+)$/;
+
+// The sender's camera as the world point at the centre of their screen, so it survives a different window size
+interface SharedView {
+  cx: number;
+  cy: number;
+  k: number;
+}
+
+export interface SharedMap {
+  item: HistoryItem;
+  view: ViewTransform;
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large maps do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const compress = async (text: string) =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+
+// A few kilobytes of deflate can expand to hundreds of megabytes, so inflation stops at this size
+export const MAX_SHARE_PAYLOAD_BYTES = 4 * 1024 * 1024;
+
+class SharePayloadTooLargeError extends Error {}
+
+const decompress = async (bytes: Uint8Array<ArrayBuffer>) => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.length;
+    if (size > MAX_SHARE_PAYLOAD_BYTES) {
+      await reader.cancel();
+      throw new SharePayloadTooLargeError();
+    }
+    text += decoder.decode(result.value, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+// Whole pixels are plenty for a shared view and noticeably shorten the link
+const roundPosition = (node: TrendNode): TrendNode => ({
+  ...node,
+  x: Math.round(node.x),
+  y: Math.round(node.y),
+  fx: node.fx == null ? node.fx : Math.round(node.fx),
+  fy: node.fy == null ? node.fy : Math.round(node.fy),
+});
+
+// Encodes the map as a session file in the URL fragment; fragments never reach a server
+export const createShareLink = async (item: HistoryItem, view: ViewTransform): Promise<string> => {
+  const { briefings, previousVersionId, ...session } = snapshotHistoryItem(item);
+  const payload = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: Date.now(),
+    session: { ...session, nodes: session.nodes.map(roundPosition) },
+    view: {
+      cx: Math.round((window.innerWidth / 2 - view.x) / view.k),
+      cy: Math.round((window.innerHeight / 2 - view.y) / view.k),
+      k: Math.round(view.k * 100) / 100,
+    } satisfies SharedView,
+  };
+  const data = toBase64Url(await compress(JSON.stringify(payload)));
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#share=v${SHARE_LINK_VERSION}.${data}`;
+};
+
+export const hasShareLink = (hash: string) => hash.startsWith('#share=');
+
+// Throws with a user-facing message when the link is damaged or from a newer version
+export const parseShareLink = async (hash: string): Promise<SharedMap> => {
+  const match = SHARE_HASH_PATTERN.exec(hash);
+  if (!match) throw new Error("This share link is incomplete");
+  if (Number(match[1]) > SHARE_LINK_VERSION) throw new Error("This share link was made by a newer version of TrendNode");
+
+  let text: string;
+  try {
+    text = await decompress(fromBase64Url(match[2]));
+  } catch (error) {
+    if (error instanceof SharePayloadTooLargeError) throw new Error("This share link holds more data than TrendNode will open");
+    throw new Error("This share link is damaged and cannot be read");
+  }
+  const item = parseSessionFile(text);
+  const { view } = JSON.parse(text) as { view?: Partial<SharedView> };
+  return {
+    item,
+    view: view && [view.cx, view.cy, view.k].every(v => typeof v === 'number' && Number.isFinite(v))
+      ? centeredOn(view.cx!, view.cy!, view.k!)
+      : { x: 0, y: 0, k: 1 },
+  };
+};
+
+export const clearShareLinkFromUrl = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', `${pathname}${search}`);
+};
@@ -0,0 +1,26 @@
+import { TrendNode } from '../types';
+
+// Browsers block most popups after the first from a single gesture, so keep this small
+export const MAX_SOURCE_TABS = 3;
+
+export const googleSearchUrl = (query: string) =>
+  `https://www.google.com/search?q=${encodeURIComponent(query)}`;
+
+// Second guard behind the parsers: javascript: and data: URLs must never reach window.open
+export const isWebUrl = (url: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Opens the node's cited articles, falling back to a Google search when it has none
+export const openNodeSources = (node: TrendNode) => {
+  const sources = (node.sources ?? []).filter(source => isWebUrl(source.url));
+  if (sources.length === 0) {
+    window.open(googleSearchUrl(node.label), '_blank');
+    return;
+  }
+  sources.slice(0, MAX_SOURCE_TABS).forEach(source => window.open(source.url, '_blank', 'noopener'));
+};
@@ -0,0 +1,56 @@
+import { TrendNode, Edge } from '../types';
+import { edgeEndpointId } from './graphUtils';
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+const VECTORS: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+export const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+export const neighborsOf = (nodeId: string, nodes: TrendNode[], edges: Edge[]): TrendNode[] => {
+  const ids = new Set<string>();
+  edges.forEach(edge => {
+    const s = edgeEndpointId(edge.source);
+    const t = edgeEndpointId(edge.target);
+    if (s === nodeId) ids.add(t);
+    if (t === nodeId) ids.add(s);
+  });
+  return nodes.filter(n => ids.has(n.id));
+};
+
+// Picks the candidate best aligned with the direction; off-axis candidates are penalized so
+// "right" prefers a node straight ahead over a closer one at a steep angle
+const bestInDirection = (from: TrendNode, candidates: TrendNode[], direction: Direction): TrendNode | undefined => {
+  const v = VECTORS[direction];
+  let best: TrendNode | undefined;
+  let bestScore = Infinity;
+  candidates.forEach(candidate => {
+    if (candidate.id === from.id) return;
+    const dx = candidate.x - from.x;
+    const dy = candidate.y - from.y;
+    const along = dx * v.x + dy * v.y;
+    if (along <= 0) return;
+    const across = Math.abs(dx * v.y - dy * v.x);
+    if (across > along * 2.5) return; // Outside a ~68° cone
+    const score = along + across * 2;
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Connected nodes win; if none lies in that direction, fall back to any node on the canvas
+export const findNodeInDirection = (from: TrendNode, nodes: TrendNode[], edges: Edge[], direction: Direction): TrendNode | undefined =>
+  bestInDirection(from, neighborsOf(from.id, nodes, edges), direction) ?? bestInDirection(from, nodes, direction);
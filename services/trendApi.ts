@@ -0,0 +1,53 @@
+import { TrendKeyword, BriefingReport } from '../types';
+import { ExpansionSettings } from './settings';
+import { BriefingRequest } from './briefing';
+import { TrendErrorKind } from './trendErrors';
+
+// Contract between the browser and the TrendNode server (server/); every endpoint takes a JSON POST
+export const TREND_API_PATHS = {
+  trends: '/api/trends',
+  translate: '/api/translate',
+  briefing: '/api/briefing',
+} as const;
+
+export interface TrendsRequestBody {
+  query: string;
+  expansion: ExpansionSettings;
+}
+
+export interface TrendsResponseBody {
+  trends: TrendKeyword[];
+}
+
+// /api/trends answers with newline-delimited JSON: a line per trend as soon as it is complete, then the
+// full list (with grounding sources) or an error. Failures before the first line come back as plain JSON.
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export type TrendsStreamLine = { trend: TrendKeyword } | TrendsResponseBody | TrendApiErrorBody;
+
+export interface TranslateRequestBody {
+  text: string;
+  expansion: ExpansionSettings;
+}
+
+export interface TranslateResponseBody {
+  translation: string;
+}
+
+export interface BriefingRequestBody {
+  request: BriefingRequest;
+  expansion: ExpansionSettings;
+}
+
+export interface BriefingResponseBody {
+  report: BriefingReport;
+}
+
+// Plain data rather than SDK errors: the browser picks titles and retries from the status and this body alone
+export interface TrendApiErrorBody {
+  error: {
+    kind: TrendErrorKind;
+    message: string;
+    retryAfter?: number; // Seconds, on rate limits
+  };
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrendKeyword } from '../types';
+import { TrendProvider, TrendStreamOptions } from './trendProvider';
+import { DEFAULT_SETTINGS } from './settings';
+import { fetchTrendsCached, TrendFetchOptions } from './trendCache';
+import { cancelledError } from './trendErrors';
+
+const trend = (keyword: string): TrendKeyword => ({ keyword, translation: '', weight: 5 });
+
+// A provider whose single answer is streamed and finished by the test, one step at a time
+const createManualProvider = () => {
+  const calls: { query: string; stream: TrendStreamOptions }[] = [];
+  let finish: (trends: TrendKeyword[]) => void = () => {};
+  const provider: TrendProvider = {
+    id: 'mock',
+    name: 'Manual',
+    fetchTrends: (query, _expansion, stream = {}) => new Promise((resolve, reject) => {
+      calls.push({ query, stream });
+      finish = resolve;
+      stream.signal?.addEventListener('abort', () => reject(cancelledError(stream.signal)));
+    }),
+    translate: async text => text,
+    generateBriefing: async () => { throw new Error('Not used'); },
+  };
+  const emit = (item: TrendKeyword) => calls[calls.length - 1].stream.onTrend?.(item);
+  return { provider, calls, emit, finish: (trends: TrendKeyword[]) => finish(trends) };
+};
+
+// Reading the cache is off so each test reaches the provider; writes fall back to memory outside a browser
+const options = (overrides: Partial<TrendFetchOptions> = {}): TrendFetchOptions => ({ expansion: DEFAULT_SETTINGS.expansion, ttlMs: 0, ...overrides });
+
+test('concurrent requests for a query share one call and all receive its stream', async t => {
+  t.mock.method(console, 'error', () => {});
+  const { provider, calls, emit, finish } = createManualProvider();
+  const first: string[] = [];
+  const second: string[] = [];
+
+  const a = fetchTrendsCached(provider, 'Shared Query', options({ onTrend: item => first.push(item.keyword) }));
+  emit(trend('Early'));
+  const b = fetchTrendsCached(provider, '  shared   query ', options({ onTrend: item => second.push(item.keyword) }));
+  emit(trend('Late'));
+  finish([trend('Early'), trend('Late')]);
+
+  const [resultA, resultB] = await Promise.all([a, b]);
+  assert.equal(calls.length, 1);
+  assert.deepEqual(first, ['Early', 'Late']);
+  assert.deepEqual(second, ['Early', 'Late'], 'the late caller gets what streamed before it joined');
+  assert.equal(resultA.trends.length, 2);
+  assert.equal(resultB.fetchedAt, resultA.fetchedAt);
+});
+
+test('one caller cancelling leaves the shared call running for the others', async t => {
+  t.mock.method(console, 'error', () => {});
+  const { provider, calls, emit, finish } = createManualProvider();
+  const cancelled = new AbortController();
+  const cancelledTrends: string[] = [];
+
+  const a = fetchTrendsCached(provider, 'Per caller abort', options({ signal: cancelled.signal, onTrend: item => cancelledTrends.push(item.keyword) }));
+  const b = fetchTrendsCached(provider, 'Per caller abort', options());
+  cancelled.abort();
+  await assert.rejects(a, { kind: 'cancelled' });
+
+  assert.equal(calls[0].stream.signal?.aborted, false);
+  emit(trend('After'));
+  finish([trend('After')]);
+  assert.deepEqual((await b).trends.map(item => item.keyword), ['After']);
+  assert.deepEqual(cancelledTrends, [], 'a caller that left gets nothing more');
+});
+
+test('the upstream call is aborted once every caller has cancelled', async () => {
+  const { provider, calls, finish } = createManualProvider();
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const a = fetchTrendsCached(provider, 'Everyone leaves', options({ signal: first.signal }));
+  const b = fetchTrendsCached(provider, 'Everyone leaves', options({ signal: second.signal }));
+  first.abort();
+  assert.equal(calls[0].stream.signal?.aborted, false);
+  second.abort();
+  await Promise.all([assert.rejects(a, { kind: 'cancelled' }), assert.rejects(b, { kind: 'cancelled' })]);
+  assert.equal(calls[0].stream.signal?.aborted, true);
+
+  // A new request does not join the call that is shutting down
+  const c = fetchTrendsCached(provider, 'Everyone leaves', options());
+  assert.equal(calls.length, 2);
+  const third = new AbortController();
+  const d = fetchTrendsCached(provider, 'Everyone leaves', options({ signal: third.signal }));
+  third.abort();
+  await assert.rejects(d, { kind: 'cancelled' });
+  assert.equal(calls[1].stream.signal?.aborted, false);
+  finish([]);
+  assert.deepEqual((await c).trends, []);
+});
@@ -0,0 +1,159 @@
+import { TrendKeyword } from '../types';
+import { TrendProvider, TrendStreamOptions } from './trendProvider';
+import { ExpansionSettings } from './settings';
+import { expansionKey } from './promptTemplates';
+import { withRetry } from './retry';
+import { cancelledError, throwIfAborted } from './trendErrors';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+
+export interface CachedTrends {
+  trends: TrendKeyword[];
+  fetchedAt: number;
+  fromCache: boolean;
+}
+
+export interface TrendFetchOptions extends TrendStreamOptions {
+  expansion: ExpansionSettings;
+  ttlMs: number; // 0 disables reading from the cache
+  bypassCache?: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  trends: TrendKeyword[];
+  fetchedAt: number;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+// One upstream fetch shared by every caller asking for the same key while it runs
+interface SharedFetch {
+  result: Promise<CachedTrends>;
+  controller: AbortController; // Aborted once the last waiter has cancelled
+  waiters: number;
+  streamed: TrendKeyword[]; // Replayed to callers that join late
+  listeners: Set<(trend: TrendKeyword) => void>;
+}
+
+const inFlight = new Map<string, SharedFetch>();
+
+export const normalizeQuery = (query: string) =>
+  query.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const trendCacheKey = (providerId: string, expansion: ExpansionSettings, query: string) =>
+  `${providerId}|${expansionKey(expansion)}|${normalizeQuery(query)}`;
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.trendCache, 'readonly');
+    const stored = await requestToPromise(tx.objectStore(STORES.trendCache).get(key) as IDBRequest<CacheEntry | undefined>);
+    if (stored) memoryCache.set(key, stored);
+    return stored;
+  } catch (error) {
+    console.error("Trend cache read failed:", error);
+    return undefined;
+  }
+};
+
+const writeEntry = async (entry: CacheEntry) => {
+  memoryCache.set(entry.key, entry);
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.trendCache, 'readwrite');
+    tx.objectStore(STORES.trendCache).put(entry);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Trend cache write failed:", error);
+  }
+};
+
+// Each waiter gets the streamed trends and can cancel on its own; the upstream call only stops when all have
+const joinFetch = (shared: SharedFetch, { onTrend, signal }: TrendStreamOptions): Promise<CachedTrends> => {
+  throwIfAborted(signal);
+  shared.waiters++;
+  const listener = onTrend && ((trend: TrendKeyword) => onTrend(trend));
+  if (listener) {
+    shared.streamed.forEach(listener);
+    shared.listeners.add(listener);
+  }
+  return new Promise((resolve, reject) => {
+    const leave = () => {
+      if (listener) shared.listeners.delete(listener);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      leave();
+      if (--shared.waiters === 0) shared.controller.abort();
+      reject(cancelledError(signal));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    shared.result.then(
+      result => { leave(); resolve(result); },
+      error => { leave(); reject(error); },
+    );
+  });
+};
+
+// Serves fresh cached results, otherwise fetches; identical concurrent requests share one call.
+// Cached results arrive all at once; fetched ones stream to every waiter's onTrend.
+export const fetchTrendsCached = async (provider: TrendProvider, query: string, options: TrendFetchOptions): Promise<CachedTrends> => {
+  const key = trendCacheKey(provider.id, options.expansion, query);
+
+  if (!options.bypassCache && options.ttlMs > 0) {
+    const entry = await readEntry(key);
+    if (entry && Date.now() - entry.fetchedAt < options.ttlMs) {
+      return { trends: entry.trends, fetchedAt: entry.fetchedAt, fromCache: true };
+    }
+  }
+
+  throwIfAborted(options.signal);
+  const pending = inFlight.get(key);
+  // Once every waiter has left, the shared call is on its way out; a new caller starts over
+  if (pending && !pending.controller.signal.aborted) return joinFetch(pending, options);
+
+  const controller = new AbortController();
+  const streamed: TrendKeyword[] = [];
+  const listeners = new Set<(trend: TrendKeyword) => void>();
+  const onTrend = (trend: TrendKeyword) => {
+    streamed.push(trend);
+    listeners.forEach(listener => listener(trend));
+  };
+  const result = (async () => {
+    try {
+      const trends = await withRetry(() => {
+        // A retry starts the stream over, so late joiners should not get the failed attempt's trends
+        streamed.length = 0;
+        return provider.fetchTrends(query, options.expansion, { onTrend, signal: controller.signal });
+      });
+      const fetchedAt = Date.now();
+      if (trends.length > 0) await writeEntry({ key, trends, fetchedAt });
+      return { trends, fetchedAt, fromCache: false };
+    } finally {
+      if (inFlight.get(key)?.controller === controller) inFlight.delete(key);
+    }
+  })();
+  const shared: SharedFetch = { result, controller, waiters: 0, streamed, listeners };
+  inFlight.set(key, shared);
+  return joinFetch(shared, options);
+};
+
+export const pruneTrendCache = async (ttlMs: number) => {
+  const cutoff = Date.now() - ttlMs;
+  memoryCache.forEach((entry, key) => { if (entry.fetchedAt < cutoff) memoryCache.delete(key); });
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.trendCache, 'readwrite');
+  const store = tx.objectStore(STORES.trendCache);
+  const entries = await requestToPromise(store.getAll() as IDBRequest<CacheEntry[]>);
+  entries.filter(entry => entry.fetchedAt < cutoff).forEach(entry => store.delete(entry.key));
+  await transactionDone(tx);
+};
+
+export const clearTrendCache = async () => {
+  memoryCache.clear();
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.trendCache, 'readwrite');
+  tx.objectStore(STORES.trendCache).clear();
+  await transactionDone(tx);
+};
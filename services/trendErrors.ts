@@ -0,0 +1,68 @@
+export type TrendErrorKind = 'auth' | 'rate_limit' | 'network' | 'server' | 'malformed' | 'schema' | 'empty' | 'cancelled' | 'unknown';
+
+// Model output glitches (malformed/schema) are usually gone on the next attempt, so they retry too
+const RETRYABLE_KINDS: TrendErrorKind[] = ['rate_limit', 'network', 'server', 'malformed', 'schema'];
+
+export const ERROR_TITLES: Record<TrendErrorKind, string> = {
+  auth: 'API key rejected',
+  rate_limit: 'Rate limited',
+  network: 'Network error',
+  server: 'Provider unavailable',
+  malformed: 'Unreadable response',
+  schema: 'Unexpected response',
+  empty: 'No trends found',
+  cancelled: 'Cancelled',
+  unknown: 'Expansion failed',
+};
+
+export class TrendFetchError extends Error {
+  readonly kind: TrendErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // How long the server asked us to wait before trying again
+
+  constructor(kind: TrendErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'TrendFetchError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get title() {
+    return ERROR_TITLES[this.kind];
+  }
+}
+
+export const kindForStatus = (status: number): TrendErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const CANCELLED_MESSAGE = "Cancelled before all results arrived";
+
+export const cancelledError = (signal?: AbortSignal) =>
+  new TrendFetchError('cancelled', CANCELLED_MESSAGE, { cause: signal?.reason });
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError(signal);
+};
+
+// Normalizes anything thrown while fetching trends into a typed error
+export const toTrendFetchError = (error: unknown): TrendFetchError => {
+  if (error instanceof TrendFetchError) return error;
+  if (error instanceof Error && error.name === 'AbortError') return new TrendFetchError('cancelled', CANCELLED_MESSAGE, { cause: error });
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new TrendFetchError('network', message, { cause: error });
+  }
+  if (/api key/i.test(message)) return new TrendFetchError('auth', message, { cause: error });
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) return new TrendFetchError('rate_limit', message, { cause: error });
+  return new TrendFetchError('unknown', message, { cause: error });
+};
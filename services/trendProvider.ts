@@ -0,0 +1,33 @@
+import { TrendKeyword, BriefingReport } from '../types';
+import { AppSettings, ExpansionSettings, ProviderId } from './settings';
+import { createProxyProvider } from './proxyProvider';
+import { createMockProvider } from './mockProvider';
+import { BriefingRequest } from './briefing';
+
+export interface TrendStreamOptions {
+  onTrend?: (trend: TrendKeyword) => void; // Each result as soon as it is complete, before the whole list resolves
+  signal?: AbortSignal; // Aborting rejects with a 'cancelled' TrendFetchError
+}
+
+export interface TrendProvider {
+  id: ProviderId;
+  name: string;
+  fetchTrends: (query: string, expansion: ExpansionSettings, stream?: TrendStreamOptions) => Promise<TrendKeyword[]>;
+  translate: (text: string, expansion: ExpansionSettings) => Promise<string>;
+  generateBriefing: (request: BriefingRequest, expansion: ExpansionSettings) => Promise<BriefingReport>;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string; description: string }[] = [
+  { id: 'gemini', name: 'Google Gemini', description: 'Live search-grounded trends through the TrendNode server, which holds the API key.' },
+  { id: 'mock', name: 'Offline fixtures', description: 'Deterministic sample data for demos and development.' },
+];
+
+export const createTrendProvider = (settings: AppSettings): TrendProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createProxyProvider();
+    case 'mock':
+    default:
+      return createMockProvider(settings.mock);
+  }
+};
@@ -0,0 +1,59 @@
+import { TrendKeyword, TrendSource } from '../types';
+import { TrendFetchError } from './trendErrors';
+import { parseCategory, parseEntityType, parseSentiment } from './nodeTaxonomy';
+import { parseRelation, parseStrength } from './edgeRelations';
+import { JsonArrayResult } from './jsonStream';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only http(s) links are kept: sources end up in window.open
+export const parseSource = (raw: unknown): TrendSource | null => {
+  if (!isObject(raw) || typeof raw.url !== 'string' || !/^https?:\/\//.test(raw.url)) return null;
+  return {
+    title: typeof raw.title === 'string' && raw.title ? raw.title : raw.url,
+    url: raw.url,
+    publisher: typeof raw.publisher === 'string' && raw.publisher ? raw.publisher : undefined,
+    publishedAt: typeof raw.publishedAt === 'string' && raw.publishedAt ? raw.publishedAt : undefined,
+  };
+};
+
+// One result, or null when it lacks a keyword or numeric weight; streamed items are checked one at a time
+export const parseTrendKeyword = (raw: unknown): TrendKeyword | null => {
+  if (!isObject(raw) || typeof raw.keyword !== 'string' || !raw.keyword.trim()) return null;
+  const weight = typeof raw.weight === 'number' ? raw.weight : Number(raw.weight);
+  if (!Number.isFinite(weight)) return null;
+  return {
+    keyword: raw.keyword.trim(),
+    translation: typeof raw.translation === 'string' ? raw.translation.trim() : '',
+    weight: Math.min(10, Math.max(1, Math.round(weight))),
+    sources: Array.isArray(raw.sources) ? raw.sources.map(parseSource).filter((s): s is TrendSource => !!s) : undefined,
+    category: parseCategory(raw.category),
+    sentiment: parseSentiment(raw.sentiment),
+    entityType: parseEntityType(raw.entityType),
+    relation: parseRelation(raw.relation),
+    relationStrength: parseStrength(raw.relationStrength),
+  };
+};
+
+// Checks a decoded payload against the TrendKeyword shape, dropping individual bad items
+export const validateTrendKeywords = (value: unknown): TrendKeyword[] => {
+  if (!Array.isArray(value)) {
+    throw new TrendFetchError('schema', `Expected a JSON array of trends, got ${value === null ? 'null' : typeof value}`);
+  }
+  const trends = value.map(parseTrendKeyword).filter((t): t is TrendKeyword => !!t);
+  if (value.length > 0 && trends.length === 0) {
+    throw new TrendFetchError('schema', "No item in the response has a keyword and a numeric weight");
+  }
+  if (trends.length < value.length) {
+    console.warn(`Dropped ${value.length - trends.length} malformed trend item(s)`);
+  }
+  return trends;
+};
+
+// Checks a whole answer as read by the streaming parser, so text that streamed fine is not refused here
+export const parseTrendResponse = ({ items, complete, invalid }: JsonArrayResult): TrendKeyword[] => {
+  if (!complete) throw new TrendFetchError('malformed', "The provider returned text that does not hold a complete JSON array");
+  if (invalid > 0) throw new TrendFetchError('malformed', `The provider returned ${invalid} item(s) that are not valid JSON`);
+  return validateTrendKeywords(items);
+};
@@ -0,0 +1,86 @@
+import { TrendNode, Edge, HistoryItem, TrendKeyword, WatchlistEntry, WatchAlert } from '../types';
+import { BREAKING_WEIGHT } from './nodeMetrics';
+import { ExpansionMerge, MatchOptions, findMatchingNode, mergeExpansion, normalizeLabel } from './nodeMatching';
+import { buildChildIndex, createChildNode } from './graphUtils';
+
+// How often due entries are looked for; each entry still waits its own interval
+export const WATCH_TICK_MS = 30_000;
+export const MAX_WATCH_ALERTS = 50;
+
+export const watchlistEntryId = (historyId: string, nodeId: string) => `${historyId}:${nodeId}`;
+
+// The node's current children are the baseline, so the first poll only reports what the map does not show yet
+export const createWatchlistEntry = (node: TrendNode, historyId: string, nodes: TrendNode[], edges: Edge[]): WatchlistEntry => ({
+  id: watchlistEntryId(historyId, node.id),
+  label: node.label,
+  translation: node.translation,
+  historyId,
+  nodeId: node.id,
+  addedAt: Date.now(),
+  lastKeywords: (buildChildIndex(nodes, edges).get(node.id) ?? []).map(child => normalizeLabel(child.label)),
+});
+
+export const isWatchDue = (entry: WatchlistEntry, intervalMs: number, now = Date.now()) =>
+  !entry.lastCheckedAt || now - entry.lastCheckedAt >= intervalMs;
+
+// Results missing from the previous poll, and the ones among them heavy enough to alert on
+export const compareWatchResults = (entry: WatchlistEntry, trends: TrendKeyword[]) => {
+  const previous = new Set(entry.lastKeywords);
+  const fresh = trends.filter(t => !previous.has(normalizeLabel(t.keyword)));
+  return {
+    fresh,
+    breaking: fresh.filter(t => t.weight >= BREAKING_WEIGHT),
+    keywords: trends.map(t => normalizeLabel(t.keyword)),
+  };
+};
+
+export const mergeWatchResults = (parent: TrendNode, trends: TrendKeyword[], nodes: TrendNode[], edges: Edge[], options: MatchOptions): ExpansionMerge =>
+  mergeExpansion(parent, trends, nodes, edges, (trend, i) => createChildNode(parent, trend, i, trends.length), options);
+
+// Applies a poll to a saved map that is not on screen; merge is null when the watched node is gone
+export const mergeIntoHistoryItem = (
+  item: HistoryItem,
+  entry: WatchlistEntry,
+  trends: TrendKeyword[],
+  fetchedAt: number,
+  options: MatchOptions,
+): { item: HistoryItem; merge: ExpansionMerge | null } => {
+  const parent = item.nodes.find(n => n.id === entry.nodeId);
+  if (!parent) return { item, merge: null };
+  const merge = mergeWatchResults(parent, trends, item.nodes, item.edges, options);
+  return {
+    item: {
+      ...item,
+      nodes: [...item.nodes.map(n => n === parent ? { ...n, expansion: { fetchedAt, fromCache: false } } : n), ...merge.newNodes],
+      edges: [...item.edges, ...merge.newEdges],
+    },
+    merge,
+  };
+};
+
+export const createWatchAlerts = (entry: WatchlistEntry, breaking: TrendKeyword[], placed: TrendNode[], options: MatchOptions): WatchAlert[] => {
+  const detectedAt = Date.now();
+  return breaking.map(trend => ({
+    id: `${entry.id}:${normalizeLabel(trend.keyword)}:${detectedAt}`,
+    entryId: entry.id,
+    historyId: entry.historyId,
+    nodeId: findMatchingNode(trend, placed, options)?.id,
+    keyword: trend.keyword,
+    translation: trend.translation,
+    weight: trend.weight,
+    detectedAt,
+  }));
+};
+
+export const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  typeof Notification === 'undefined' ? 'denied' : Notification.requestPermission();
+
+export const notifyWatchAlert = (alert: WatchAlert, entry: WatchlistEntry) => {
+  if (!canNotify()) return;
+  new Notification(`Breaking: ${alert.translation || alert.keyword}`, {
+    body: `${alert.keyword} · watching ${entry.translation || entry.label}`,
+    tag: alert.id,
+  });
+};
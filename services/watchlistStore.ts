@@ -0,0 +1,19 @@
+import { WatchlistEntry } from '../types';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+
+export const loadWatchlist = async (): Promise<WatchlistEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.watchlist, 'readonly');
+  const entries = await requestToPromise(tx.objectStore(STORES.watchlist).getAll() as IDBRequest<WatchlistEntry[]>);
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+// Replaces the stored set with the given entries in a single transaction
+export const saveWatchlist = async (entries: WatchlistEntry[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.watchlist, 'readwrite');
+  const store = tx.objectStore(STORES.watchlist);
+  store.clear();
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
@@ -1,4 +1,18 @@
 
+export interface TrendSource {
+  title: string;
+  url: string;
+  publisher?: string;
+  publishedAt?: string; // ISO 8601 timestamp when known
+}
+
+export type TrendCategory = 'politics' | 'tech' | 'finance' | 'business' | 'science' | 'health' | 'environment' | 'sports' | 'entertainment' | 'world' | 'other';
+
+export type EntityType = 'person' | 'organization' | 'event' | 'product';
+
+// How a child story relates to the topic it was found for, read child → parent ("a reaction to …")
+export type EdgeRelation = 'reaction_to' | 'caused_by' | 'same_event' | 'follow_up' | 'part_of' | 'competitor' | 'related';
+
 export interface TrendNode {
   id: string;
   label: string;
@@ -13,12 +27,93 @@ export interface TrendNode {
   isSelected: boolean;
   isInitial?: boolean;
   weight?: number; // 1-10 scale for news recency/importance
+  sources?: TrendSource[];
+  category?: TrendCategory;
+  sentiment?: number; // -1 (negative) to 1 (positive) tone of the coverage
+  entityType?: EntityType;
+  expansion?: ExpansionInfo; // Set once the node has been expanded
+  isManual?: boolean; // Written by hand rather than returned by a provider
+  pinned?: boolean; // Keeps fx/fy after a drag and stays put in every layout
+}
+
+export interface ExpansionInfo {
+  fetchedAt: number;
+  fromCache: boolean;
 }
 
 export interface Edge {
   id: string;
   source: string | any;
   target: string | any;
+  isManual?: boolean; // Drawn by the user between two existing nodes
+  relation?: EdgeRelation;
+  strength?: number; // 0 (loosely related) to 1 (directly follows from the parent)
+}
+
+export interface TrendKeyword {
+  keyword: string;
+  translation: string;
+  weight: number; // Score from 1-10 representing how recent/breaking the news is
+  sources?: TrendSource[];
+  category?: TrendCategory;
+  sentiment?: number;
+  entityType?: EntityType;
+  relation?: EdgeRelation; // Relation to the query this trend was found for
+  relationStrength?: number;
+}
+
+export interface BriefingStory {
+  nodeId?: string; // The selected node this story was written for, when the provider echoes it back
+  title: string;
+  summary: string;
+}
+
+export interface BriefingConnection {
+  between: string[]; // Story titles
+  description: string;
+}
+
+export interface BriefingTimelineEntry {
+  date: string; // As precise as known, e.g. "2025-03-14" or "2025-03-14 09:30"
+  event: string;
+}
+
+// What a provider returns for a set of selected stories
+export interface BriefingReport {
+  headline: string;
+  stories: BriefingStory[];
+  connections: BriefingConnection[];
+  timeline: BriefingTimelineEntry[];
+}
+
+export interface Briefing extends BriefingReport {
+  id: string;
+  createdAt: number;
+  nodeIds: string[]; // Nodes that were selected when it was generated
+}
+
+// A topic that is re-fetched in the background; new results are merged into the map it was watched from
+export interface WatchlistEntry {
+  id: string;
+  label: string; // Query sent to the provider on every poll
+  translation: string;
+  historyId: string;
+  nodeId: string; // Node in that map the new results are attached to
+  addedAt: number;
+  lastCheckedAt?: number;
+  lastKeywords: string[]; // Normalized keywords of the previous result, to tell what is new
+  lastError?: string;
+}
+
+export interface WatchAlert {
+  id: string;
+  entryId: string;
+  historyId: string;
+  nodeId?: string; // The node the breaking result became, when it could be merged
+  keyword: string;
+  translation: string;
+  weight: number;
+  detectedAt: number;
 }
 
 export interface HistoryItem {
@@ -27,4 +122,7 @@ export interface HistoryItem {
   timestamp: number;
   nodes: TrendNode[];
   edges: Edge[];
+  previousVersionId?: string; // Session this one was re-run from by "refresh map"
+  version?: number; // 1 for an original session, incremented on each refresh
+  briefings?: Briefing[]; // Newest first
 }
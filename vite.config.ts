@@ -1,14 +1,14 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || '')
-  },
   server: {
     port: 3000,
-    open: true
+    open: true,
+    // The TrendNode server (npm run server) answers /api and keeps the Gemini key out of the bundle
+    proxy: {
+      '/api': process.env.TREND_SERVER_URL || 'http://localhost:8787'
+    }
   }
 });